@@ -1,8 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+import { IRandomnessConsumer, IRandomnessSource } from "./randomness/IRandomnessSource.sol";
+
 // Simplified FHE implementation for anonymous lottery
-contract AnonymousLottery {
+contract AnonymousLottery is IRandomnessConsumer {
 
     struct LotteryEntry {
         address participant;
@@ -11,6 +13,13 @@ contract AnonymousLottery {
         uint256 timestamp;
     }
 
+    // Ticket paid for in commit-reveal mode, entered once its picks are revealed
+    struct CommittedTicket {
+        address participant;
+        uint256 ticketCount;
+        bool revealed;
+    }
+
     struct Winner {
         address winner;
         uint256 prize;
@@ -26,6 +35,29 @@ contract AnonymousLottery {
     bool public isActive = true;
     uint256 public roundNumber = 1;
 
+    // Source of the word that picks the winner; without one (address(0)) drawWinner derives it
+    // from block data, which the owner can grind by choosing when to draw
+    IRandomnessSource public immutable randomnessSource;
+    // Request the pending draw waits for, 0 if no draw is pending
+    uint256 public randomnessRequestId;
+    // When that request was made. A request the source has not answered within
+    // DRAW_REQUEST_TIMEOUT can be cancelled by anyone, so that a withheld or dropped word cannot
+    // lock the round. The owner cannot cancel earlier: it could then drop words it dislikes
+    uint256 public constant DRAW_REQUEST_TIMEOUT = 1 days;
+    uint256 public drawRequestedAt;
+
+    // Commit-reveal mode, on while revealDuration > 0: entrants pay with commitTicket for a salted
+    // commitment to their picks and reveal them with revealTicket within revealDuration of
+    // startReveal. Tickets not revealed in time are forfeited: their fees stay in the pool, but
+    // they never enter the draw
+    uint256 public revealDuration;
+    // When the reveal window of the current round closes, 0 while it takes commitments
+    uint256 public revealDeadline;
+    // Keyed by round, committer and commitment, so that a commitment copied from a pending
+    // transaction cannot take the slot of the one it was copied from
+    mapping(uint256 => mapping(address => mapping(bytes32 => CommittedTicket))) public committedTickets;
+    mapping(uint256 => uint256) public commitmentCount;
+
     LotteryEntry[] public entries;
     Winner[] public winners;
 
@@ -34,6 +66,10 @@ contract AnonymousLottery {
     mapping(address => bool) public hasWon;
     mapping(uint256 => bytes32) private roundSecrets;
 
+    // Prizes and owner fees owed to each address until they call claimPrize, and their total
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+
     event LotteryEntered(
         address indexed participant,
         uint256 ticketCount,
@@ -52,6 +88,22 @@ contract AnonymousLottery {
 
     event LotteryReset(uint256 newRound);
 
+    event DrawRequested(uint256 indexed randomnessRequestId, uint256 round);
+
+    event DrawRequestCancelled(uint256 indexed randomnessRequestId, uint256 round);
+
+    event PrizeClaimed(address indexed account, uint256 amount);
+
+    event EmergencyWithdrawal(address indexed to, uint256 amount, uint256 round, uint256 drainedPool);
+
+    event TicketCommitted(address indexed participant, bytes32 commitment, uint256 ticketCount, uint256 round);
+
+    event TicketRevealed(address indexed participant, bytes32 commitment, uint256 ticketCount, uint256 round);
+
+    event RevealStarted(uint256 round, uint256 revealDeadline);
+
+    event RevealDurationChanged(uint256 duration);
+
     modifier onlyOwner() {
         require(msg.sender == owner, "Only owner can call this function");
         _;
@@ -62,7 +114,8 @@ contract AnonymousLottery {
         _;
     }
 
-    constructor() {
+    constructor(IRandomnessSource _randomnessSource) {
+        randomnessSource = _randomnessSource;
         owner = msg.sender;
         // Initialize random seed for this round
         roundSecrets[roundNumber] = keccak256(abi.encodePacked(block.timestamp, block.difficulty, msg.sender));
@@ -95,7 +148,9 @@ contract AnonymousLottery {
         bool _num2,
         bool _num3
     ) external payable onlyActive {
+        require(revealDuration == 0, "Use commitTicket in commit-reveal mode");
         require(msg.value >= entryFee, "Insufficient entry fee");
+        require(randomnessRequestId == 0, "Draw in progress");
 
         uint256 ticketCount = msg.value / entryFee;
         require(ticketCount > 0 && ticketCount <= 10, "Invalid ticket count");
@@ -103,23 +158,110 @@ contract AnonymousLottery {
         // Encrypt the numbers using our FHE-like function
         bytes32 encryptedNumbers = encryptNumbers(_num1, _num2, _num3, msg.sender);
 
+        prizePool += msg.value;
+        addEntries(msg.sender, encryptedNumbers, ticketCount);
+    }
+
+    function addEntries(address _participant, bytes32 _encryptedNumbers, uint256 _ticketCount) internal {
         // Add entries for each ticket
-        for (uint256 i = 0; i < ticketCount; i++) {
+        for (uint256 i = 0; i < _ticketCount; i++) {
             entries.push(LotteryEntry({
-                participant: msg.sender,
-                encryptedNumbers: encryptedNumbers,
-                ticketCount: ticketCount,
+                participant: _participant,
+                encryptedNumbers: _encryptedNumbers,
+                ticketCount: _ticketCount,
                 timestamp: block.timestamp
             }));
         }
 
-        participantEntries[msg.sender] += ticketCount;
+        participantEntries[_participant] += _ticketCount;
+
+        emit LotteryEntered(_participant, _ticketCount, entries.length, roundNumber);
+    }
+
+    // Commitment to three picks. The salt keeps the 8 possible picks from being brute-forced, and
+    // the participant makes it useless to anyone copying it
+    function ticketCommitment(
+        bool _num1,
+        bool _num2,
+        bool _num3,
+        bytes32 _salt,
+        address _participant
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(_num1, _num2, _num3, _salt, _participant));
+    }
+
+    // Buy up to 10 tickets for the picks behind a commitment, to be revealed with revealTicket
+    function commitTicket(bytes32 _commitment) external payable onlyActive {
+        require(revealDuration > 0, "Commit-reveal mode is off");
+        require(revealDeadline == 0, "Commit phase over");
+        require(msg.value >= entryFee, "Insufficient entry fee");
+
+        uint256 ticketCount = msg.value / entryFee;
+        require(ticketCount > 0 && ticketCount <= 10, "Invalid ticket count");
+        require(
+            committedTickets[roundNumber][msg.sender][_commitment].participant == address(0),
+            "Commitment already used"
+        );
+
+        committedTickets[roundNumber][msg.sender][_commitment] = CommittedTicket({
+            participant: msg.sender,
+            ticketCount: ticketCount,
+            revealed: false
+        });
+        commitmentCount[roundNumber]++;
         prizePool += msg.value;
 
-        emit LotteryEntered(msg.sender, ticketCount, entries.length, roundNumber);
+        emit TicketCommitted(msg.sender, _commitment, ticketCount, roundNumber);
+    }
+
+    // Close the commit phase of the round and open its reveal window
+    function startReveal() external onlyOwner {
+        require(revealDuration > 0, "Commit-reveal mode is off");
+        require(revealDeadline == 0, "Reveal already started");
+        require(commitmentCount[roundNumber] > 0, "No commitments in round");
+
+        revealDeadline = block.timestamp + revealDuration;
+
+        emit RevealStarted(roundNumber, revealDeadline);
+    }
+
+    // Reveal the picks and salt of one of the caller's commitments, entering its tickets
+    function revealTicket(bool _num1, bool _num2, bool _num3, bytes32 _salt) external {
+        require(revealDeadline != 0, "Reveal not started");
+        require(block.timestamp < revealDeadline, "Reveal window closed");
+
+        bytes32 commitment = ticketCommitment(_num1, _num2, _num3, _salt, msg.sender);
+        CommittedTicket storage ticket = committedTickets[roundNumber][msg.sender][commitment];
+        require(ticket.participant == msg.sender, "Invalid reveal");
+        require(!ticket.revealed, "Ticket already revealed");
+
+        ticket.revealed = true;
+        addEntries(msg.sender, encryptNumbers(_num1, _num2, _num3, msg.sender), ticket.ticketCount);
+
+        emit TicketRevealed(msg.sender, commitment, ticket.ticketCount, roundNumber);
+    }
+
+    // Rounds with commitments can only be drawn once nobody can reveal anymore
+    function requireRevealClosed() internal view {
+        if (commitmentCount[roundNumber] > 0) {
+            require(revealDeadline != 0 && block.timestamp >= revealDeadline, "Reveal window not closed");
+        }
+    }
+
+    // Start the next round when every ticket of this one was forfeited; the pool carries over
+    function rollOverRound() external onlyOwner {
+        require(commitmentCount[roundNumber] > 0, "No commitments in round");
+        requireRevealClosed();
+        require(entries.length == 0, "Round has entries");
+
+        uint256 pool = prizePool;
+        resetLottery();
+        prizePool = pool;
     }
 
     function drawWinner() external onlyOwner onlyActive returns (address) {
+        require(address(randomnessSource) == address(0), "Use requestDraw with a randomness source");
+        requireRevealClosed();
         require(entries.length > 0, "No entries in lottery");
 
         // Generate random index using multiple sources of randomness
@@ -131,6 +273,44 @@ contract AnonymousLottery {
             msg.sender
         ))) % entries.length;
 
+        return settleDraw(randomIndex);
+    }
+
+    // Ask the randomness source for the word that picks the winner. Entries are closed until
+    // the source delivers it to fulfillRandomness, which settles the draw
+    function requestDraw() external onlyOwner onlyActive returns (uint256) {
+        require(address(randomnessSource) != address(0), "No randomness source");
+        requireRevealClosed();
+        require(entries.length > 0, "No entries in lottery");
+        require(randomnessRequestId == 0, "Draw in progress");
+
+        randomnessRequestId = randomnessSource.requestRandomness();
+        drawRequestedAt = block.timestamp;
+
+        emit DrawRequested(randomnessRequestId, roundNumber);
+
+        return randomnessRequestId;
+    }
+
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external {
+        require(msg.sender == address(randomnessSource), "Only randomness source");
+        require(requestId != 0 && requestId == randomnessRequestId, "Unknown randomness request");
+
+        randomnessRequestId = 0;
+        settleDraw(randomWord % entries.length);
+    }
+
+    // Drop a request the source did not answer in time, reopening entries; the owner can then
+    // request a new word. A late answer to the dropped request is rejected
+    function cancelDrawRequest() external {
+        require(randomnessRequestId != 0, "No draw in progress");
+        require(block.timestamp >= drawRequestedAt + DRAW_REQUEST_TIMEOUT, "Draw request not timed out");
+
+        emit DrawRequestCancelled(randomnessRequestId, roundNumber);
+        randomnessRequestId = 0;
+    }
+
+    function settleDraw(uint256 randomIndex) internal returns (address) {
         LotteryEntry storage winningEntry = entries[randomIndex];
         address winner = winningEntry.participant;
 
@@ -157,9 +337,9 @@ contract AnonymousLottery {
             timestamp: block.timestamp
         }));
 
-        // Transfer prizes
-        payable(winner).transfer(prize);
-        payable(owner).transfer(ownerFee);
+        // Credit the prizes; sending them here would let a winner that refuses ETH block the draw
+        credit(winner, prize);
+        credit(owner, ownerFee);
 
         emit WinnerDrawn(winner, prize, num1, num2, num3, roundNumber);
 
@@ -169,10 +349,31 @@ contract AnonymousLottery {
         return winner;
     }
 
+    function credit(address _account, uint256 _amount) internal {
+        pendingWithdrawals[_account] += _amount;
+        totalPendingWithdrawals += _amount;
+    }
+
+    // Withdraw the prizes and fees credited to the caller
+    function claimPrize() external returns (uint256) {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        require(success, "Prize transfer failed");
+
+        emit PrizeClaimed(msg.sender, amount);
+        return amount;
+    }
+
     function resetLottery() internal {
         delete entries;
         prizePool = 0;
         roundNumber++;
+        revealDeadline = 0;
 
         // Generate new secret for next round
         roundSecrets[roundNumber] = keccak256(abi.encodePacked(
@@ -186,6 +387,7 @@ contract AnonymousLottery {
     }
 
     // View functions
+    // Every entry of the round; use getEntries to read a large round in pages
     function getParticipants() external view returns (address[] memory) {
         address[] memory participants = new address[](entries.length);
         for (uint256 i = 0; i < entries.length; i++) {
@@ -225,6 +427,37 @@ contract AnonymousLottery {
         return winners;
     }
 
+    // Page of the winners of every round, oldest first, and the number of winners
+    function getWinners(uint256 _offset, uint256 _limit) external view returns (Winner[] memory, uint256) {
+        Winner[] memory page = new Winner[](pageLength(_offset, _limit, winners.length));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = winners[_offset + i];
+        }
+        return (page, winners.length);
+    }
+
+    // Page of the entries of a round and the number of entries; past rounds are not kept
+    function getEntries(uint256 _round, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (LotteryEntry[] memory, uint256)
+    {
+        require(_round == roundNumber, "Only the current round keeps its entries");
+
+        LotteryEntry[] memory page = new LotteryEntry[](pageLength(_offset, _limit, entries.length));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = entries[_offset + i];
+        }
+        return (page, entries.length);
+    }
+
+    function pageLength(uint256 _offset, uint256 _limit, uint256 _total) internal pure returns (uint256) {
+        if (_offset >= _total) {
+            return 0;
+        }
+        return _total - _offset < _limit ? _total - _offset : _limit;
+    }
+
     function isLotteryActive() external view returns (bool) {
         return isActive;
     }
@@ -246,8 +479,28 @@ contract AnonymousLottery {
         entryFee = _newFee;
     }
 
+    // Turn commit-reveal mode on with a reveal window in seconds, or off with 0, between rounds
+    function setRevealDuration(uint256 _duration) external onlyOwner {
+        require(entries.length == 0 && commitmentCount[roundNumber] == 0, "Round already has tickets");
+        revealDuration = _duration;
+        emit RevealDurationChanged(_duration);
+    }
+
+    // Withdraw everything not credited to winners. Taking the pool ends the round without a draw,
+    // so that no later draw credits prizes the contract no longer holds
     function emergencyWithdraw() external onlyOwner {
-        payable(owner).transfer(address(this).balance);
+        uint256 amount = address(this).balance - totalPendingWithdrawals;
+        uint256 round = roundNumber;
+        uint256 drainedPool = prizePool;
+        if (drainedPool > 0) {
+            randomnessRequestId = 0;
+            resetLottery();
+        }
+
+        (bool success, ) = payable(owner).call{ value: amount }("");
+        require(success, "Withdrawal failed");
+
+        emit EmergencyWithdrawal(owner, amount, round, drainedPool);
     }
 
     // Allow direct donations to prize pool
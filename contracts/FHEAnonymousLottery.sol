@@ -0,0 +1,444 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint8, euint32, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// AnonymousLottery with real FHE types: the three picks are encrypted ebools, stored as one euint8
+// combination (num1 in bit 2, num2 in bit 1, num3 in bit 0) that only the participant can decrypt.
+// A draw takes two steps: requestDraw draws an encrypted winning combination, compares it with
+// every ticket using FHE.eq and makes the result publicly decryptable; fulfillDraw verifies the
+// decryption and credits one of the matching tickets, which claims it with claimPrize. Without a
+// match the pool rolls over
+contract FHEAnonymousLottery is ZamaEthereumConfig {
+
+    struct LotteryEntry {
+        address participant;
+        euint8 encryptedPicks;
+        uint256 ticketCount;
+        uint256 timestamp;
+    }
+
+    struct Winner {
+        address winner;
+        uint256 prize;
+        uint8 num1;
+        uint8 num2;
+        uint8 num3;
+        uint256 timestamp;
+        // Rounds that roll over have no winner, so the round is recorded with it
+        uint256 round;
+    }
+
+    // Number of possible combinations of three picks
+    uint8 public constant COMBINATIONS = 8;
+    // requestDraw runs one FHE.eq per purchase, so a round takes at most this many purchases to
+    // keep the draw within the gas and FHE computation limits of one transaction
+    uint256 public constant MAX_PURCHASES_PER_ROUND = 100;
+
+    address public owner;
+    uint256 public entryFee = 0.00001 ether;
+    uint256 public prizePool;
+    bool public isActive = true;
+    uint256 public roundNumber = 1;
+
+    // Id of the last draw requested, and whether it still waits for fulfillDraw
+    uint256 public drawRequestId;
+    bool public drawPending;
+    // When that draw was requested. A draw nobody fulfilled within DRAW_REQUEST_TIMEOUT can be
+    // cancelled by anyone, so that a decryption that never arrives cannot lock the round. The owner
+    // cannot cancel earlier: it could then drop draws it dislikes once their handles are decrypted
+    uint256 public constant DRAW_REQUEST_TIMEOUT = 1 days;
+    uint256 public drawRequestedAt;
+    // Handles of the pending draw: the winning combination, a word that picks among the matching
+    // tickets, then one match flag per purchase in entry order
+    euint8 private pendingCombination;
+    euint32 private pendingSeed;
+    ebool[] private pendingMatches;
+
+    // One entry per ticket; the tickets of a purchase are consecutive and share their picks
+    LotteryEntry[] public entries;
+    // Number of purchases in the current round
+    uint256 public purchaseCount;
+    Winner[] public winners;
+
+    // Mapping to track participant entries and wins
+    mapping(address => uint256) public participantEntries;
+    mapping(address => bool) public hasWon;
+
+    // Prizes and owner fees owed to each address until they call claimPrize, and their total
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+
+    event LotteryEntered(
+        address indexed participant,
+        uint256 ticketCount,
+        uint256 totalEntries,
+        uint256 round
+    );
+
+    event WinnerDrawn(
+        address indexed winner,
+        uint256 prize,
+        uint8 num1,
+        uint8 num2,
+        uint8 num3,
+        uint256 round
+    );
+
+    event LotteryReset(uint256 newRound);
+
+    event DrawRequested(uint256 indexed requestId, uint256 round, bytes32[] handles);
+
+    event DrawRequestCancelled(uint256 indexed requestId, uint256 round);
+
+    event PrizeClaimed(address indexed account, uint256 amount);
+
+    event EmergencyWithdrawal(address indexed to, uint256 amount, uint256 round, uint256 drainedPool);
+
+    event NoWinningEntry(uint256 round, uint8 num1, uint8 num2, uint8 num3, uint256 rolledOverPool);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this function");
+        _;
+    }
+
+    modifier onlyActive() {
+        require(isActive, "Lottery is not active");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    // Enter with three encrypted picks sharing one input proof
+    function enterLottery(
+        externalEbool _num1,
+        externalEbool _num2,
+        externalEbool _num3,
+        bytes calldata _inputProof
+    ) external payable onlyActive {
+        require(msg.value >= entryFee, "Insufficient entry fee");
+        require(!drawPending, "Draw in progress");
+        require(purchaseCount < MAX_PURCHASES_PER_ROUND, "Round is full");
+
+        uint256 ticketCount = msg.value / entryFee;
+        require(ticketCount > 0 && ticketCount <= 10, "Invalid ticket count");
+
+        // Pack the picks into their combination without decrypting them
+        euint8 encryptedPicks = FHE.add(
+            FHE.add(
+                pickBit(FHE.fromExternal(_num1, _inputProof), 4),
+                pickBit(FHE.fromExternal(_num2, _inputProof), 2)
+            ),
+            pickBit(FHE.fromExternal(_num3, _inputProof), 1)
+        );
+        FHE.allowThis(encryptedPicks);
+        FHE.allow(encryptedPicks, msg.sender);
+
+        prizePool += msg.value;
+
+        // Add entries for each ticket
+        for (uint256 i = 0; i < ticketCount; i++) {
+            entries.push(LotteryEntry({
+                participant: msg.sender,
+                encryptedPicks: encryptedPicks,
+                ticketCount: ticketCount,
+                timestamp: block.timestamp
+            }));
+        }
+
+        participantEntries[msg.sender] += ticketCount;
+        purchaseCount++;
+
+        emit LotteryEntered(msg.sender, ticketCount, entries.length, roundNumber);
+    }
+
+    function pickBit(ebool _pick, uint8 _bit) internal returns (euint8) {
+        return FHE.select(_pick, FHE.asEuint8(_bit), FHE.asEuint8(0));
+    }
+
+    // Draw the encrypted winning combination and match it against every purchase. Entries are
+    // closed until fulfillDraw settles the draw with the public decryption of the handles
+    function requestDraw() external onlyOwner onlyActive returns (uint256 requestId, bytes32[] memory handles) {
+        require(entries.length > 0, "No entries in lottery");
+        require(!drawPending, "Draw in progress");
+
+        pendingCombination = FHE.makePubliclyDecryptable(FHE.randEuint8(COMBINATIONS));
+        pendingSeed = FHE.makePubliclyDecryptable(FHE.randEuint32());
+
+        for (uint256 i = 0; i < entries.length; i += entries[i].ticketCount) {
+            ebool matched = FHE.eq(entries[i].encryptedPicks, pendingCombination);
+            pendingMatches.push(FHE.makePubliclyDecryptable(matched));
+        }
+
+        drawPending = true;
+        drawRequestedAt = block.timestamp;
+        requestId = ++drawRequestId;
+        handles = getDrawHandles();
+
+        emit DrawRequested(requestId, roundNumber, handles);
+    }
+
+    // Reopen the round after a draw that was not fulfilled in time; a new requestDraw draws afresh
+    function cancelDrawRequest() external {
+        require(drawPending, "No draw in progress");
+        require(block.timestamp >= drawRequestedAt + DRAW_REQUEST_TIMEOUT, "Draw request not timed out");
+
+        emit DrawRequestCancelled(drawRequestId, roundNumber);
+        clearPendingDraw();
+    }
+
+    // Settle the pending draw with the decrypted values of getDrawHandles(), ABI-encoded in
+    // order. Anyone can relay them since the KMS signatures are verified
+    function fulfillDraw(
+        uint256 _requestId,
+        bytes calldata _abiEncodedCleartexts,
+        bytes calldata _decryptionProof
+    ) external returns (address) {
+        require(drawPending, "No draw in progress");
+        require(_requestId == drawRequestId, "Unknown draw request");
+
+        FHE.checkSignatures(getDrawHandles(), _abiEncodedCleartexts, _decryptionProof);
+
+        drawPending = false;
+
+        // Every cleartext is a static type, so each one takes a single 32-byte word
+        uint8 combination = abi.decode(_abiEncodedCleartexts[0:32], (uint8));
+        uint32 seed = abi.decode(_abiEncodedCleartexts[32:64], (uint32));
+        uint8 num1 = (combination >> 2) & 1;
+        uint8 num2 = (combination >> 1) & 1;
+        uint8 num3 = combination & 1;
+
+        // Each matching purchase counts with its tickets
+        bool[] memory matched = new bool[](pendingMatches.length);
+        uint256 matchedTickets = 0;
+        uint256 purchase = 0;
+        for (uint256 i = 0; i < entries.length; i += entries[i].ticketCount) {
+            uint256 offset = 64 + 32 * purchase;
+            matched[purchase] = abi.decode(_abiEncodedCleartexts[offset:offset + 32], (bool));
+            if (matched[purchase]) {
+                matchedTickets += entries[i].ticketCount;
+            }
+            purchase++;
+        }
+        delete pendingMatches;
+
+        if (matchedTickets == 0) {
+            uint256 rolledOverPool = prizePool;
+            emit NoWinningEntry(roundNumber, num1, num2, num3, rolledOverPool);
+            resetLottery();
+            prizePool = rolledOverPool;
+            return address(0);
+        }
+
+        uint256 winningTicket = seed % matchedTickets;
+        address winner;
+        purchase = 0;
+        for (uint256 i = 0; i < entries.length; i += entries[i].ticketCount) {
+            if (matched[purchase]) {
+                if (winningTicket < entries[i].ticketCount) {
+                    winner = entries[i].participant;
+                    break;
+                }
+                winningTicket -= entries[i].ticketCount;
+            }
+            purchase++;
+        }
+
+        // Calculate prize distribution
+        uint256 prize = (prizePool * 80) / 100; // 80% to winner
+        uint256 ownerFee = prizePool - prize;    // 20% to owner
+
+        // Mark winner
+        hasWon[winner] = true;
+
+        // Record winner
+        winners.push(Winner({
+            winner: winner,
+            prize: prize,
+            num1: num1,
+            num2: num2,
+            num3: num3,
+            timestamp: block.timestamp,
+            round: roundNumber
+        }));
+
+        // Credit the prizes; sending them here would let a winner that refuses ETH block the draw
+        credit(winner, prize);
+        credit(owner, ownerFee);
+
+        emit WinnerDrawn(winner, prize, num1, num2, num3, roundNumber);
+
+        // Reset for next round
+        resetLottery();
+
+        return winner;
+    }
+
+    function credit(address _account, uint256 _amount) internal {
+        pendingWithdrawals[_account] += _amount;
+        totalPendingWithdrawals += _amount;
+    }
+
+    // Withdraw the prizes and fees credited to the caller
+    function claimPrize() external returns (uint256) {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        require(success, "Prize transfer failed");
+
+        emit PrizeClaimed(msg.sender, amount);
+        return amount;
+    }
+
+    function clearPendingDraw() internal {
+        drawPending = false;
+        delete pendingMatches;
+    }
+
+    // Handles of the pending draw, in the order fulfillDraw decodes their cleartexts
+    function getDrawHandles() public view returns (bytes32[] memory handles) {
+        require(drawPending, "No draw in progress");
+
+        handles = new bytes32[](2 + pendingMatches.length);
+        handles[0] = FHE.toBytes32(pendingCombination);
+        handles[1] = FHE.toBytes32(pendingSeed);
+        for (uint256 i = 0; i < pendingMatches.length; i++) {
+            handles[2 + i] = FHE.toBytes32(pendingMatches[i]);
+        }
+    }
+
+    function resetLottery() internal {
+        delete entries;
+        purchaseCount = 0;
+        prizePool = 0;
+        roundNumber++;
+
+        emit LotteryReset(roundNumber);
+    }
+
+    // View functions
+    // Every entry of the round; use getEntries to read a large round in pages
+    function getParticipants() external view returns (address[] memory) {
+        address[] memory participants = new address[](entries.length);
+        for (uint256 i = 0; i < entries.length; i++) {
+            participants[i] = entries[i].participant;
+        }
+        return participants;
+    }
+
+    function getPrizePool() external view returns (uint256) {
+        return prizePool;
+    }
+
+    function getEntryFee() external view returns (uint256) {
+        return entryFee;
+    }
+
+    function getEntryCount() external view returns (uint256) {
+        return entries.length;
+    }
+
+    function getCurrentRound() external view returns (uint256) {
+        return roundNumber;
+    }
+
+    function getWinningNumbers() external view returns (uint8, uint8, uint8) {
+        require(winners.length > 0, "No winners yet");
+        Winner memory lastWinner = winners[winners.length - 1];
+        return (lastWinner.num1, lastWinner.num2, lastWinner.num3);
+    }
+
+    function getLastWinner() external view returns (address) {
+        require(winners.length > 0, "No winners yet");
+        return winners[winners.length - 1].winner;
+    }
+
+    function getAllWinners() external view returns (Winner[] memory) {
+        return winners;
+    }
+
+    // Page of the winners of every round, oldest first, and the number of winners
+    function getWinners(uint256 _offset, uint256 _limit) external view returns (Winner[] memory, uint256) {
+        Winner[] memory page = new Winner[](pageLength(_offset, _limit, winners.length));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = winners[_offset + i];
+        }
+        return (page, winners.length);
+    }
+
+    // Page of the entries of a round and the number of entries; past rounds are not kept
+    function getEntries(uint256 _round, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (LotteryEntry[] memory, uint256)
+    {
+        require(_round == roundNumber, "Only the current round keeps its entries");
+
+        LotteryEntry[] memory page = new LotteryEntry[](pageLength(_offset, _limit, entries.length));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = entries[_offset + i];
+        }
+        return (page, entries.length);
+    }
+
+    function pageLength(uint256 _offset, uint256 _limit, uint256 _total) internal pure returns (uint256) {
+        if (_offset >= _total) {
+            return 0;
+        }
+        return _total - _offset < _limit ? _total - _offset : _limit;
+    }
+
+    function isLotteryActive() external view returns (bool) {
+        return isActive;
+    }
+
+    function getParticipantHistory(address _participant) external view returns (uint256) {
+        return participantEntries[_participant];
+    }
+
+    function hasParticipantWon(address _participant) external view returns (bool) {
+        return hasWon[_participant];
+    }
+
+    // Owner functions
+    function setLotteryActive(bool _active) external onlyOwner {
+        isActive = _active;
+    }
+
+    function setEntryFee(uint256 _newFee) external onlyOwner {
+        entryFee = _newFee;
+    }
+
+    // Withdraw everything but the unclaimed prizes. Draining a funded round ends it, together with
+    // its pending draw, so that a later draw cannot credit a pool that is gone
+    function emergencyWithdraw() external onlyOwner {
+        uint256 amount = address(this).balance - totalPendingWithdrawals;
+        uint256 round = roundNumber;
+        uint256 drainedPool = prizePool;
+        if (drainedPool > 0) {
+            clearPendingDraw();
+            resetLottery();
+        }
+
+        (bool success, ) = payable(owner).call{ value: amount }("");
+        require(success, "Withdrawal failed");
+
+        emit EmergencyWithdrawal(owner, amount, round, drainedPool);
+    }
+
+    // Allow direct donations to prize pool
+    receive() external payable {
+        prizePool += msg.value;
+    }
+
+    fallback() external payable {
+        prizePool += msg.value;
+    }
+}
@@ -1,8 +1,9 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IRandomnessConsumer, IRandomnessSource } from "./randomness/IRandomnessSource.sol";
 
 /// @title Privacy-Preserving Lottery Contract
 /// @author FHEVM Examples
@@ -10,38 +11,162 @@ import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 /// @dev This contract showcases:
 /// - Encrypted number storage using FHEVM
 /// - Access control patterns with FHE.allowThis and FHE.allow
+/// - User decryption of each participant's own tickets
 /// - Input proofs for encrypted values
-/// - Multi-round lottery mechanics
-contract PrivateLottery is ZamaEthereumConfig {
+/// - Encrypted range checks with FHE.ge/FHE.le and FHE.select
+/// - Multi-round lottery mechanics, optionally time-boxed with a permissionless draw
+/// - Round-scoped storage: the entries, pool and winners of every round stay queryable
+/// - Pull payments: prizes and fees are credited and claimed with claimPrize
+/// - Cancellable rounds whose entrants claim back what they paid with claimRefund
+/// - Configurable prize split (in basis points) and fee recipient
+/// - Tiered prize tables paid to distinct winners
+/// - Entries picked with a word from a pluggable randomness source chosen at deployment
+/// - Encrypted random winning numbers matched against entries with FHE.eq
+/// - Public decryption of the draw result verified with FHE.checkSignatures
+contract PrivateLottery is ZamaEthereumConfig, IRandomnessConsumer {
+    /// @notice How requestDraw picks the winners of a round
+    /// @dev RandomEntry picks one entry per prize tier with a random word and reveals their numbers.
+    /// EncryptedMatch draws an encrypted number in 1-100 and pays every entry that chose it.
+    /// Both take two steps: requestDraw makes the result publicly decryptable, fulfillDraw
+    /// settles it with the decrypted values
+    enum DrawMode {
+        RandomEntry,
+        EncryptedMatch
+    }
+
     struct LotteryEntry {
         address participant;
         euint32 encryptedNumber;
         uint256 timestamp;
     }
 
+    /// @notice Everything recorded about one round; nothing is cleared when the next one starts
+    struct Round {
+        LotteryEntry[] entries;
+        // Indexes in winners of the round's winners, in the order they were drawn
+        uint256[] winnerIndexes;
+        // The pool the round was settled or cancelled with; the live pool is prizePool
+        uint256 pool;
+        uint256 startedAt;
+        // When the round was drawn or cancelled, 0 while it is the current round
+        uint256 endedAt;
+        mapping(address => bool) won;
+    }
+
+    /// @notice Summary of a round returned by getRound
+    struct RoundInfo {
+        uint256 round;
+        uint256 entryCount;
+        uint256 pool;
+        uint256 startedAt;
+        uint256 endedAt;
+        bool cancelled;
+        Winner[] winners;
+    }
+
     struct Winner {
         address winner;
         uint256 prize;
         uint32 winningNumber;
         uint256 timestamp;
+        uint256 round;
+        // Index in prizeTiers, 0 for the first prize
+        uint256 tier;
     }
 
+    /// @notice Range of valid ticket numbers
+    uint32 public constant MIN_NUMBER = 1;
+    uint32 public constant MAX_NUMBER = 100;
+    /// @notice Stored instead of an out-of-range number; it is never drawn, so such a ticket cannot match
+    uint32 public constant INVALID_NUMBER = 0;
+    /// @notice winnerBps and feeBps always add up to this
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+    uint256 public constant MAX_PRIZE_TIERS = 10;
+    /// @notice Most entries an EncryptedMatch round takes. Its requestDraw runs one FHE.eq per
+    /// entry, and this many stay within the FHE computation limit of one transaction
+    uint256 public constant MAX_MATCH_ENTRIES = 200;
+
+    /// @notice Where RandomEntry draws get their random word; address(0) derives it from block
+    /// data instead, which whoever triggers the draw can grind by choosing when to call it
+    IRandomnessSource public immutable randomnessSource;
+
     address public owner;
     uint256 public entryFee = 0.001 ether;
     uint256 public prizePool;
     bool public isActive = true;
     uint256 public roundNumber = 1;
-
-    LotteryEntry[] public entries;
+    /// @notice Most tickets one address can hold in a round, 0 for no limit
+    uint256 public maxTicketsPerAddress;
+    /// @notice How long each round accepts entries, in seconds, 0 for rounds without a deadline
+    uint256 public roundDuration;
+    /// @notice When the current round stops accepting entries, 0 if it has no deadline
+    uint256 public closesAt;
+    /// @notice Fewest entries a round needs before it can be drawn
+    uint256 public minEntries;
+    DrawMode public drawMode = DrawMode.RandomEntry;
+    bool public drawPending;
+    uint256 public drawRequestId;
+    /// @notice Request to randomnessSource that the pending draw waits for, 0 if none
+    uint256 public randomnessRequestId;
+    /// @notice When the pending draw was requested. cancelRound only drops it DRAW_REQUEST_TIMEOUT
+    /// later: by then nobody fulfilled it, while an earlier cancel would let the owner drop a
+    /// result they already know, through the public decryption or as commit-reveal operator
+    uint256 public constant DRAW_REQUEST_TIMEOUT = 1 days;
+    uint256 public drawRequestedAt;
+    /// @notice Share of the pool paid to the winners of a round, in basis points
+    uint256 public winnerBps = 8_000;
+    /// @notice Share of the pool credited to feeRecipient, in basis points
+    uint256 public feeBps = 2_000;
+    address public feeRecipient;
+    /// @notice Share of the winners' part of the pool paid to each tier, in basis points
+    uint256[] public prizeTiers;
+
+    mapping(uint256 => Round) private rounds;
     Winner[] public winners;
 
+    // Totals over every round; the per-round figures are in rounds and tickets
     mapping(address => uint256) public participantEntries;
     mapping(address => bool) public hasWon;
 
+    // Prizes and fees owed to each address until they call claimPrize, and their total
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+
+    // What each address paid to enter a round, and the total per round; cancelled rounds refund
+    // it through claimRefund, and totalPendingRefunds keeps the unclaimed part in the contract
+    mapping(uint256 => mapping(address => uint256)) public paidInRound;
+    mapping(uint256 => uint256) public totalPaidInRound;
+    mapping(uint256 => bool) public roundCancelled;
+    uint256 public totalPendingRefunds;
+
+    // Ticket handles per round and participant
+    mapping(uint256 => mapping(address => euint32[])) private tickets;
+
+    // Pending draw: in RandomEntry mode the chosen entry of each tier and its number, in
+    // EncryptedMatch mode the drawn number and one match flag per entry
+    euint32[] private pendingNumbers;
+    uint256[] private pendingEntries;
+    ebool[] private pendingMatches;
+
     event LotteryEntered(address indexed participant, uint256 timestamp, uint256 round);
-    event WinnerDrawn(address indexed winner, uint256 prize, uint32 winningNumber, uint256 round);
+    event WinnerDrawn(address indexed winner, uint256 prize, uint32 winningNumber, uint256 round, uint256 tier);
     event LotteryReset(uint256 newRound);
     event LotteryStatusChanged(bool isActive);
+    event DrawModeChanged(DrawMode mode);
+    event MaxTicketsPerAddressChanged(uint256 maxTickets);
+    event RoundDurationChanged(uint256 duration);
+    event MinEntriesChanged(uint256 minEntries);
+    event RoundScheduled(uint256 round, uint256 closesAt);
+    event PrizeClaimed(address indexed account, uint256 amount);
+    event RoundCancelled(uint256 indexed round, uint256 refundable, uint256 rolledOverPool);
+    event RefundClaimed(uint256 indexed round, address indexed account, uint256 amount);
+    event EmergencyWithdrawal(address indexed to, uint256 amount, uint256 round, uint256 drainedPool);
+    event PrizeSplitChanged(uint256 winnerBps, uint256 feeBps);
+    event FeeRecipientChanged(address indexed feeRecipient);
+    event PrizeTiersChanged(uint256[] tiers);
+    event DrawRequested(uint256 indexed requestId, uint256 round, bytes32[] handles);
+    event DrawSeeded(uint256 indexed requestId, uint256 randomWord, bytes32[] handles);
+    event NoWinningEntry(uint256 round, uint32 winningNumber, uint256 rolledOverPool);
 
     modifier onlyOwner() {
         require(msg.sender == owner, "Only owner can call this function");
@@ -53,8 +178,23 @@ contract PrivateLottery is ZamaEthereumConfig {
         _;
     }
 
-    constructor() {
+    modifier onlyStartedRound(uint256 round) {
+        require(round > 0 && round <= roundNumber, "Round not started");
+        _;
+    }
+
+    modifier onlyOpenRound() {
+        require(closesAt == 0 || block.timestamp < closesAt, "Round closed");
+        _;
+    }
+
+    /// @param source The randomness source of RandomEntry draws, address(0) for block data
+    constructor(IRandomnessSource source) {
+        randomnessSource = source;
         owner = msg.sender;
+        feeRecipient = msg.sender;
+        prizeTiers.push(BPS_DENOMINATOR);
+        rounds[roundNumber].startedAt = block.timestamp;
     }
 
     /// @notice Enter the lottery with an encrypted number between 1-100
@@ -62,87 +202,490 @@ contract PrivateLottery is ZamaEthereumConfig {
     /// @param inputProof The input proof for the encrypted number
     /// @dev The number is encrypted on the client side and can only be decrypted
     /// by the contract with proper permissions. This ensures privacy of participant choices.
-    function enterLottery(externalEuint32 encryptedNumber, bytes calldata inputProof) external payable onlyActive {
+    /// Numbers outside 1-100 are replaced by INVALID_NUMBER homomorphically, so the range check
+    /// reveals nothing about the value.
+    function enterLottery(
+        externalEuint32 encryptedNumber,
+        bytes calldata inputProof
+    ) external payable onlyActive onlyOpenRound {
         require(msg.value >= entryFee, "Insufficient entry fee");
+        require(!drawPending, "Draw in progress");
+        requireTicketsAvailable(1);
+
+        addTicket(encryptedNumber, inputProof);
+        recordPayment();
+    }
+
+    /// @notice Enter the lottery with several encrypted numbers at once
+    /// @param numbers The encrypted numbers, one ticket each
+    /// @param inputProof The input proof shared by all numbers
+    /// @dev The numbers come from a single encrypted input, so one proof covers every handle.
+    /// Each ticket costs the entry fee and is handled like an enterLottery call
+    function enterLotteryBatch(
+        externalEuint32[] calldata numbers,
+        bytes calldata inputProof
+    ) external payable onlyActive onlyOpenRound {
+        require(numbers.length > 0, "No numbers given");
+        require(msg.value >= entryFee * numbers.length, "Insufficient entry fee");
+        require(!drawPending, "Draw in progress");
+        requireTicketsAvailable(numbers.length);
+
+        for (uint256 i = 0; i < numbers.length; i++) {
+            addTicket(numbers[i], inputProof);
+        }
+        recordPayment();
+    }
 
+    /// @notice Add the caller's payment to the pool and to what they paid in this round
+    function recordPayment() internal {
+        prizePool += msg.value;
+        paidInRound[roundNumber][msg.sender] += msg.value;
+        totalPaidInRound[roundNumber] += msg.value;
+    }
+
+    /// @notice Check that the caller can buy more tickets in this round
+    function requireTicketsAvailable(uint256 count) internal view {
+        require(
+            maxTicketsPerAddress == 0 || tickets[roundNumber][msg.sender].length + count <= maxTicketsPerAddress,
+            "Ticket limit reached"
+        );
+        require(
+            drawMode != DrawMode.EncryptedMatch || rounds[roundNumber].entries.length + count <= MAX_MATCH_ENTRIES,
+            "Round is full"
+        );
+    }
+
+    /// @notice Store one encrypted ticket of the caller in the current round
+    function addTicket(externalEuint32 encryptedNumber, bytes calldata inputProof) internal {
         // Convert external encrypted value to internal euint32
-        euint32 encryptedValue = FHE.fromExternal(encryptedNumber, inputProof);
+        euint32 submittedValue = FHE.fromExternal(encryptedNumber, inputProof);
+
+        // Keep the number only if it is within the game's range
+        ebool inRange = FHE.and(FHE.ge(submittedValue, MIN_NUMBER), FHE.le(submittedValue, MAX_NUMBER));
+        euint32 encryptedValue = FHE.select(inRange, submittedValue, FHE.asEuint32(INVALID_NUMBER));
+
+        // Keep access to the stored handle beyond this transaction so drawWinner can use it
+        FHE.allowThis(encryptedValue);
+        // Let the participant decrypt their own ticket
+        FHE.allow(encryptedValue, msg.sender);
+        tickets[roundNumber][msg.sender].push(encryptedValue);
 
         // Store the encrypted entry
-        entries.push(LotteryEntry({ participant: msg.sender, encryptedNumber: encryptedValue, timestamp: block.timestamp }));
+        rounds[roundNumber].entries.push(LotteryEntry({ participant: msg.sender, encryptedNumber: encryptedValue, timestamp: block.timestamp }));
 
         participantEntries[msg.sender]++;
-        prizePool += msg.value;
 
         emit LotteryEntered(msg.sender, block.timestamp, roundNumber);
     }
 
-    /// @notice Draw a winner from the current lottery round
-    /// @return The address of the winner
+    /// @notice Draw the winners of the current lottery round in a single transaction
+    /// @return The address of the first prize winner
     /// @dev This function:
-    /// 1. Selects a random entry using block data
-    /// 2. Extracts and decrypts the winning encrypted number
-    /// 3. Records the winner
-    /// 4. Transfers prizes
+    /// 1. Selects one random entry per prize tier using block data, from distinct participants
+    /// 2. Grants the owner access to the winning encrypted numbers
+    /// 3. Records the winners
+    /// 4. Credits the prizes and the fee (see winnerBps and feeBps), to be collected with claimPrize
     /// 5. Resets for the next round
-    function drawWinner() external onlyOwner onlyActive returns (address) {
-        require(entries.length > 0, "No entries in lottery");
-
-        // Generate random index
-        uint256 randomIndex = uint256(
-            keccak256(
-                abi.encodePacked(
-                    block.timestamp,
-                    block.number,
-                    blockhash(block.number - 1),
-                    entries.length,
-                    msg.sender
-                )
-            )
-        ) % entries.length;
-
-        LotteryEntry storage winningEntry = entries[randomIndex];
-        address winner = winningEntry.participant;
-        euint32 encryptedWinningNumber = winningEntry.encryptedNumber;
-
-        // Grant permissions to decrypt the winning number
-        FHE.allowThis(encryptedWinningNumber);
-        FHE.allow(encryptedWinningNumber, owner);
+    /// The numbers cannot be decrypted within the transaction, so they are recorded as 0.
+    /// Use requestDraw and fulfillDraw to record the real winning numbers.
+    /// Only the owner can draw a round without a deadline; anyone can draw one once it closed.
+    /// Not available with a randomness source, whose words arrive in a later transaction
+    function drawWinner() external onlyActive returns (address) {
+        require(drawMode == DrawMode.RandomEntry, "Use requestDraw in encrypted match mode");
+        require(address(randomnessSource) == address(0), "Use requestDraw with a randomness source");
+        requireDrawable();
+
+        LotteryEntry[] storage entries = rounds[roundNumber].entries;
+        uint256[] memory picked = pickTierEntries(blockSeed());
+        for (uint256 i = 0; i < picked.length; i++) {
+            // Grant permissions to decrypt the winning number
+            euint32 encryptedWinningNumber = entries[picked[i]].encryptedNumber;
+            FHE.allowThis(encryptedWinningNumber);
+            FHE.allow(encryptedWinningNumber, owner);
+        }
+        address winner = entries[picked[0]].participant;
 
         // For demonstration: decrypt by owner (in production, could use relayer)
         // Note: In actual FHEVM, decryption requires proper authorization
-        uint32 winningNumber = 0; // Placeholder for decrypted value
+        uint32[] memory winningNumbers = new uint32[](picked.length); // Placeholders for decrypted values
 
-        // Calculate prize distribution
-        uint256 prize = (prizePool * 80) / 100; // 80% to winner
-        uint256 ownerFee = prizePool - prize;   // 20% to platform
+        settleTiers(picked, winningNumbers);
 
-        // Record winner
-        hasWon[winner] = true;
-        winners.push(Winner({ winner: winner, prize: prize, winningNumber: winningNumber, timestamp: block.timestamp }));
+        return winner;
+    }
 
-        // Transfer prizes
-        (bool successWinner, ) = payable(winner).call{ value: prize }("");
-        require(successWinner, "Prize transfer to winner failed");
+    /// @notice Start a draw for the current round
+    /// @return requestId The id to pass to fulfillDraw
+    /// @return handles The handles to publicly decrypt and pass to fulfillDraw, in order; empty
+    /// while the draw waits for randomnessSource
+    /// @dev In RandomEntry mode, picks one entry per prize tier and makes their numbers publicly
+    /// decryptable. With a randomness source, it requests a word and the entries are picked when
+    /// the source delivers it (see fulfillRandomness and DrawSeeded). In EncryptedMatch mode, draws an encrypted number in 1-100, compares it with
+    /// every entry and makes the number and the comparison results publicly decryptable.
+    /// Entries are closed until the draw is fulfilled, so the result covers exactly the entries
+    /// of the round. Only the owner can draw a round without a deadline; anyone can draw one once
+    /// it closed
+    function requestDraw() external onlyActive returns (uint256 requestId, bytes32[] memory handles) {
+        requireDrawable();
+
+        if (drawMode == DrawMode.RandomEntry) {
+            if (address(randomnessSource) != address(0)) {
+                randomnessRequestId = randomnessSource.requestRandomness();
+            } else {
+                seedDraw(blockSeed());
+            }
+        } else {
+            euint32 winningNumber = FHE.add(FHE.rem(FHE.randEuint32(), MAX_NUMBER), MIN_NUMBER);
+            pendingNumbers.push(FHE.makePubliclyDecryptable(winningNumber));
+
+            LotteryEntry[] storage entries = rounds[roundNumber].entries;
+            for (uint256 i = 0; i < entries.length; i++) {
+                ebool matched = FHE.eq(entries[i].encryptedNumber, winningNumber);
+                pendingMatches.push(FHE.makePubliclyDecryptable(matched));
+            }
+        }
+
+        drawPending = true;
+        drawRequestedAt = block.timestamp;
+        requestId = ++drawRequestId;
+        handles = getDrawHandles();
+
+        emit DrawRequested(requestId, roundNumber, handles);
+    }
 
-        (bool successOwner, ) = payable(owner).call{ value: ownerFee }("");
-        require(successOwner, "Fee transfer to owner failed");
+    /// @notice Receive the random word of the pending draw from randomnessSource
+    /// @dev Picks the entries with the word and makes their numbers publicly decryptable; the
+    /// handles are emitted with DrawSeeded and settled with fulfillDraw
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external {
+        require(msg.sender == address(randomnessSource), "Only randomness source");
+        require(drawPending && requestId == randomnessRequestId, "Unknown randomness request");
 
-        emit WinnerDrawn(winner, prize, winningNumber, roundNumber);
+        randomnessRequestId = 0;
+        seedDraw(randomWord);
+
+        emit DrawSeeded(drawRequestId, randomWord, getDrawHandles());
+    }
+
+    /// @notice Pick the entries of a RandomEntry draw and make their numbers publicly decryptable
+    function seedDraw(uint256 seed) internal {
+        LotteryEntry[] storage entries = rounds[roundNumber].entries;
+        uint256[] memory picked = pickTierEntries(seed);
+        for (uint256 i = 0; i < picked.length; i++) {
+            pendingEntries.push(picked[i]);
+            pendingNumbers.push(FHE.makePubliclyDecryptable(entries[picked[i]].encryptedNumber));
+        }
+    }
+
+    /// @notice Settle the pending draw with its public decryption
+    /// @param requestId The id returned by requestDraw
+    /// @param abiEncodedCleartexts The decrypted values of getDrawHandles(), ABI-encoded in order
+    /// @param decryptionProof The KMS proof for those values
+    /// @return The number of winning entries
+    /// @dev Anyone can relay the result since the KMS signatures are verified. In RandomEntry mode
+    /// each chosen entry gets the prize of its tier. In EncryptedMatch mode every winning entry
+    /// gets an equal share of winnerBps of the pool, and without a match the pool rolls over
+    function fulfillDraw(
+        uint256 requestId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external returns (uint256) {
+        require(drawPending, "No draw in progress");
+        require(requestId == drawRequestId, "Unknown draw request");
+        require(randomnessRequestId == 0, "Waiting for randomness");
+
+        FHE.checkSignatures(getDrawHandles(), abiEncodedCleartexts, decryptionProof);
+
+        drawPending = false;
+
+        // Every cleartext is a static type, so each one takes a single 32-byte word
+        if (drawMode == DrawMode.RandomEntry) {
+            uint256[] memory picked = pendingEntries;
+            uint32[] memory winningNumbers = new uint32[](picked.length);
+            for (uint256 i = 0; i < picked.length; i++) {
+                winningNumbers[i] = abi.decode(abiEncodedCleartexts[32 * i:32 * (i + 1)], (uint32));
+            }
+            delete pendingEntries;
+            delete pendingNumbers;
+
+            settleTiers(picked, winningNumbers);
+            return picked.length;
+        }
+
+        uint32 winningNumber = abi.decode(abiEncodedCleartexts[0:32], (uint32));
+        LotteryEntry[] storage entries = rounds[roundNumber].entries;
+        uint256 winnerCount = 0;
+        bool[] memory matched = new bool[](entries.length);
+        for (uint256 i = 0; i < entries.length; i++) {
+            matched[i] = abi.decode(abiEncodedCleartexts[32 * (i + 1):32 * (i + 2)], (bool));
+            if (matched[i]) {
+                winnerCount++;
+            }
+        }
+
+        delete pendingNumbers;
+        delete pendingMatches;
+
+        if (winnerCount == 0) {
+            uint256 rolledOverPool = prizePool;
+            emit NoWinningEntry(roundNumber, winningNumber, rolledOverPool);
+            resetLottery();
+            prizePool = rolledOverPool;
+            return 0;
+        }
+
+        uint256 prize = (prizePool * winnerBps) / BPS_DENOMINATOR / winnerCount;
+        uint256 fee = prizePool - prize * winnerCount;
+
+        for (uint256 i = 0; i < matched.length; i++) {
+            if (matched[i]) {
+                recordWinner(entries[i].participant, prize, winningNumber, 0);
+            }
+        }
+
+        credit(feeRecipient, fee);
 
-        // Reset for next round
         resetLottery();
 
-        return winner;
+        return winnerCount;
+    }
+
+    /// @notice Get the handles of the pending draw
+    /// @return handles The number of each chosen entry in RandomEntry mode, or the drawn number
+    /// followed by one match flag per entry in EncryptedMatch mode
+    function getDrawHandles() public view returns (bytes32[] memory handles) {
+        require(drawPending, "No draw in progress");
+
+        uint256 numberCount = pendingNumbers.length;
+        handles = new bytes32[](numberCount + pendingMatches.length);
+        for (uint256 i = 0; i < numberCount; i++) {
+            handles[i] = FHE.toBytes32(pendingNumbers[i]);
+        }
+        for (uint256 i = 0; i < pendingMatches.length; i++) {
+            handles[numberCount + i] = FHE.toBytes32(pendingMatches[i]);
+        }
+    }
+
+    /// @notice Check that the caller can draw the current round now
+    function requireDrawable() internal view {
+        if (closesAt == 0) {
+            require(msg.sender == owner, "Only owner can call this function");
+        } else {
+            require(block.timestamp >= closesAt, "Round still open");
+        }
+        uint256 entryCount = rounds[roundNumber].entries.length;
+        require(entryCount > 0, "No entries in lottery");
+        require(entryCount >= minEntries, "Not enough entries");
+        require(!drawPending, "Draw in progress");
+    }
+
+    /// @notice Reopen a closed round that cannot be drawn for lack of entries
+    /// @dev Anyone can call it once the deadline passed with fewer than minEntries entries (or none).
+    /// The round keeps its entries and pool and closes roundDuration from now
+    function extendRound() external {
+        require(closesAt != 0 && block.timestamp >= closesAt, "Round still open");
+        uint256 entryCount = rounds[roundNumber].entries.length;
+        require(entryCount == 0 || entryCount < minEntries, "Round can be drawn");
+
+        scheduleRound();
+    }
+
+    /// @notice Cancel the current round and let its entrants claim back what they paid
+    /// @dev The owner can cancel any round, including one with a pending draw that was not
+    /// fulfilled within DRAW_REQUEST_TIMEOUT. Anyone can cancel a round whose deadline passed with
+    /// fewer than minEntries entries. The part of the pool that was not paid in this round
+    /// (donations and rollovers) carries over to the next round
+    function cancelRound() external {
+        require(
+            msg.sender == owner ||
+                (closesAt != 0 && block.timestamp >= closesAt && rounds[roundNumber].entries.length < minEntries),
+            "Only owner can call this function"
+        );
+        require(!drawPending || block.timestamp >= drawRequestedAt + DRAW_REQUEST_TIMEOUT, "Draw request not timed out");
+
+        uint256 round = roundNumber;
+        uint256 refundable = totalPaidInRound[round];
+        uint256 rolledOverPool = prizePool - refundable;
+
+        roundCancelled[round] = true;
+        totalPendingRefunds += refundable;
+
+        clearPendingDraw();
+
+        emit RoundCancelled(round, refundable, rolledOverPool);
+        resetLottery();
+        prizePool = rolledOverPool;
+    }
+
+    /// @notice Drop the pending draw, if any, so that it can no longer be fulfilled
+    function clearPendingDraw() internal {
+        drawPending = false;
+        randomnessRequestId = 0;
+        delete pendingEntries;
+        delete pendingNumbers;
+        delete pendingMatches;
+    }
+
+    /// @notice Withdraw what the caller paid to enter a cancelled round
+    /// @param round The cancelled round
+    /// @return amount The amount sent to the caller
+    function claimRefund(uint256 round) external returns (uint256 amount) {
+        require(roundCancelled[round], "Round not cancelled");
+        amount = paidInRound[round][msg.sender];
+        require(amount > 0, "Nothing to refund");
+
+        paidInRound[round][msg.sender] = 0;
+        totalPendingRefunds -= amount;
+
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        require(success, "Refund transfer failed");
+
+        emit RefundClaimed(round, msg.sender, amount);
+    }
+
+    /// @notice Set the deadline of the current round from roundDuration
+    function scheduleRound() internal {
+        closesAt = roundDuration == 0 ? 0 : block.timestamp + roundDuration;
+        emit RoundScheduled(roundNumber, closesAt);
+    }
+
+    /// @notice Withdraw the prizes and fees credited to the caller
+    /// @return amount The amount sent to the caller
+    function claimPrize() external returns (uint256 amount) {
+        amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        require(success, "Prize transfer failed");
+
+        emit PrizeClaimed(msg.sender, amount);
+    }
+
+    /// @notice Record an amount owed to an account until it claims it
+    function credit(address account, uint256 amount) internal {
+        pendingWithdrawals[account] += amount;
+        totalPendingWithdrawals += amount;
+    }
+
+    /// @notice Pay each prize tier to its chosen entry, credit the fee and start the next round
+    /// @param picked The winning entry of each filled tier, in tier order
+    /// @param winningNumbers The number recorded for each of those entries
+    /// @dev Tiers left empty for lack of distinct participants, and rounding dust of the tier
+    /// shares, roll over to the next round
+    function settleTiers(uint256[] memory picked, uint32[] memory winningNumbers) internal {
+        uint256 winnersShare = (prizePool * winnerBps) / BPS_DENOMINATOR;
+        uint256 fee = prizePool - winnersShare;
+        uint256 paid = 0;
+        LotteryEntry[] storage entries = rounds[roundNumber].entries;
+
+        for (uint256 tier = 0; tier < picked.length; tier++) {
+            uint256 prize = (winnersShare * prizeTiers[tier]) / BPS_DENOMINATOR;
+            recordWinner(entries[picked[tier]].participant, prize, winningNumbers[tier], tier);
+            paid += prize;
+        }
+
+        // Credit the fee; a recipient that cannot receive ETH must not block the draw
+        credit(feeRecipient, fee);
+
+        resetLottery();
+        prizePool = winnersShare - paid;
+    }
+
+    /// @notice Record a winner of the current round and credit their prize
+    function recordWinner(address winner, uint256 prize, uint32 winningNumber, uint256 tier) internal {
+        hasWon[winner] = true;
+        rounds[roundNumber].won[winner] = true;
+        rounds[roundNumber].winnerIndexes.push(winners.length);
+        winners.push(
+            Winner({
+                winner: winner,
+                prize: prize,
+                winningNumber: winningNumber,
+                timestamp: block.timestamp,
+                round: roundNumber,
+                tier: tier
+            })
+        );
+
+        credit(winner, prize);
+
+        emit WinnerDrawn(winner, prize, winningNumber, roundNumber, tier);
+    }
+
+    /// @notice Derive a seed from block data for draws without a randomness source
+    function blockSeed() internal view returns (uint256) {
+        return
+            uint256(
+                keccak256(
+                    abi.encodePacked(
+                        block.timestamp,
+                        block.number,
+                        blockhash(block.number - 1),
+                        rounds[roundNumber].entries.length,
+                        msg.sender
+                    )
+                )
+            );
+    }
+
+    /// @notice Pick one entry of the current round per prize tier, each from a different participant
+    /// @param seed The random word of the draw
+    /// @return picked The chosen entry indexes in tier order; shorter than prizeTiers when the round
+    /// has fewer participants than tiers
+    /// @dev Each tier starts at a position derived from the seed and walks forward to the first
+    /// entry whose participant has not won a higher tier
+    function pickTierEntries(uint256 seed) internal view returns (uint256[] memory picked) {
+        LotteryEntry[] storage entries = rounds[roundNumber].entries;
+        uint256[] memory chosen = new uint256[](prizeTiers.length);
+        uint256 count = 0;
+        for (uint256 tier = 0; tier < prizeTiers.length; tier++) {
+            uint256 start = uint256(keccak256(abi.encodePacked(seed, tier))) % entries.length;
+            bool found = false;
+            for (uint256 step = 0; step < entries.length && !found; step++) {
+                uint256 index = (start + step) % entries.length;
+                found = !hasParticipant(entries, chosen, count, entries[index].participant);
+                if (found) {
+                    chosen[count++] = index;
+                }
+            }
+            if (!found) {
+                break;
+            }
+        }
+
+        picked = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            picked[i] = chosen[i];
+        }
+    }
+
+    /// @notice Check whether one of the first `count` chosen entries belongs to a participant
+    function hasParticipant(
+        LotteryEntry[] storage entries,
+        uint256[] memory chosen,
+        uint256 count,
+        address participant
+    ) internal view returns (bool) {
+        for (uint256 i = 0; i < count; i++) {
+            if (entries[chosen[i]].participant == participant) {
+                return true;
+            }
+        }
+        return false;
     }
 
     /// @notice Reset the lottery for the next round
     function resetLottery() internal {
-        delete entries;
+        rounds[roundNumber].pool = prizePool;
+        rounds[roundNumber].endedAt = block.timestamp;
         prizePool = 0;
         roundNumber++;
+        rounds[roundNumber].startedAt = block.timestamp;
 
         emit LotteryReset(roundNumber);
+        scheduleRound();
     }
 
     // View functions
@@ -162,7 +705,24 @@ contract PrivateLottery is ZamaEthereumConfig {
     /// @notice Get the number of entries in current round
     /// @return The number of entries
     function getEntryCount() external view returns (uint256) {
-        return entries.length;
+        return rounds[roundNumber].entries.length;
+    }
+
+    /// @notice Get the entries, pool, schedule and winners of a round
+    /// @param round The round number
+    /// @return info The round; endedAt is 0 and pool is the live pool while it is the current round
+    function getRound(uint256 round) external view onlyStartedRound(round) returns (RoundInfo memory info) {
+        Round storage data = rounds[round];
+        info.round = round;
+        info.entryCount = data.entries.length;
+        info.pool = round == roundNumber ? prizePool : data.pool;
+        info.startedAt = data.startedAt;
+        info.endedAt = data.endedAt;
+        info.cancelled = roundCancelled[round];
+        info.winners = new Winner[](data.winnerIndexes.length);
+        for (uint256 i = 0; i < data.winnerIndexes.length; i++) {
+            info.winners[i] = winners[data.winnerIndexes[i]];
+        }
     }
 
     /// @notice Get the current round number
@@ -178,12 +738,59 @@ contract PrivateLottery is ZamaEthereumConfig {
         return winners[winners.length - 1].winner;
     }
 
+    /// @notice Get the prize table
+    /// @return The share of each tier, in basis points of the winners' part of the pool
+    function getPrizeTiers() external view returns (uint256[] memory) {
+        return prizeTiers;
+    }
+
     /// @notice Get all winners
     /// @return Array of all winners
+    /// @dev Grows with every draw; use getWinners to read a long history in pages
     function getAllWinners() external view returns (Winner[] memory) {
         return winners;
     }
 
+    /// @notice Get a page of the winners of every round, oldest first
+    /// @param offset Index of the first winner to return
+    /// @param limit Most winners to return
+    /// @return page The winners from offset on, empty past the last one
+    /// @return total The number of winners over every round
+    function getWinners(uint256 offset, uint256 limit) external view returns (Winner[] memory page, uint256 total) {
+        total = winners.length;
+        page = new Winner[](pageLength(offset, limit, total));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = winners[offset + i];
+        }
+    }
+
+    /// @notice Get a page of the entries of a round, in entry order
+    /// @param round The round number
+    /// @param offset Index of the first entry to return
+    /// @param limit Most entries to return
+    /// @return page The entries from offset on, empty past the last one
+    /// @return total The number of entries in the round
+    function getEntries(
+        uint256 round,
+        uint256 offset,
+        uint256 limit
+    ) external view onlyStartedRound(round) returns (LotteryEntry[] memory page, uint256 total) {
+        LotteryEntry[] storage entries = rounds[round].entries;
+        total = entries.length;
+        page = new LotteryEntry[](pageLength(offset, limit, total));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = entries[offset + i];
+        }
+    }
+
+    /// @notice Number of items a page from offset holds, out of total
+    function pageLength(uint256 offset, uint256 limit, uint256 total) internal pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        return total - offset < limit ? total - offset : limit;
+    }
+
     /// @notice Check if lottery is active
     /// @return True if active, false otherwise
     function isLotteryActive() external view returns (bool) {
@@ -192,18 +799,47 @@ contract PrivateLottery is ZamaEthereumConfig {
 
     /// @notice Get number of entries for a participant
     /// @param participant The participant address
-    /// @return The number of entries
+    /// @return The number of entries over every round
     function getParticipantEntries(address participant) external view returns (uint256) {
         return participantEntries[participant];
     }
 
+    /// @notice Get number of entries for a participant in a round
+    /// @param participant The participant address
+    /// @param round The round number
+    /// @return The number of entries
+    function getParticipantEntriesInRound(
+        address participant,
+        uint256 round
+    ) external view onlyStartedRound(round) returns (uint256) {
+        return tickets[round][participant].length;
+    }
+
+    /// @notice Get the caller's tickets in a round
+    /// @param round The round number
+    /// @return The encrypted numbers the caller entered, which only the caller can decrypt
+    function getMyEntries(uint256 round) external view returns (euint32[] memory) {
+        return tickets[round][msg.sender];
+    }
+
     /// @notice Check if a participant has won
     /// @param participant The participant address
-    /// @return True if participant has won
+    /// @return True if participant has won in any round
     function hasParticipantWon(address participant) external view returns (bool) {
         return hasWon[participant];
     }
 
+    /// @notice Check if a participant won a prize in a round
+    /// @param participant The participant address
+    /// @param round The round number
+    /// @return True if participant won in that round
+    function hasParticipantWonInRound(
+        address participant,
+        uint256 round
+    ) external view onlyStartedRound(round) returns (bool) {
+        return rounds[round].won[participant];
+    }
+
     // Owner functions
 
     /// @notice Set the lottery active status
@@ -213,16 +849,109 @@ contract PrivateLottery is ZamaEthereumConfig {
         emit LotteryStatusChanged(active);
     }
 
+    /// @notice Set how winners are drawn
+    /// @param mode RandomEntry or EncryptedMatch
+    /// @dev A round with more than MAX_MATCH_ENTRIES entries cannot switch to EncryptedMatch
+    function setDrawMode(DrawMode mode) external onlyOwner {
+        require(!drawPending, "Draw in progress");
+        require(
+            mode != DrawMode.EncryptedMatch || rounds[roundNumber].entries.length <= MAX_MATCH_ENTRIES,
+            "Too many entries for EncryptedMatch"
+        );
+        drawMode = mode;
+        emit DrawModeChanged(mode);
+    }
+
+    /// @notice Set how many tickets one address can hold in a round
+    /// @param maxTickets The new limit, 0 for no limit
+    function setMaxTicketsPerAddress(uint256 maxTickets) external onlyOwner {
+        maxTicketsPerAddress = maxTickets;
+        emit MaxTicketsPerAddressChanged(maxTickets);
+    }
+
+    /// @notice Set how the pool of a round is split between the winners and the fee recipient
+    /// @param newWinnerBps The winners' share in basis points
+    /// @param newFeeBps The fee in basis points
+    /// @dev The shares must add up to BPS_DENOMINATOR and cannot change while a draw is pending
+    function setPrizeSplit(uint256 newWinnerBps, uint256 newFeeBps) external onlyOwner {
+        require(newWinnerBps > 0, "Winner share cannot be zero");
+        require(newWinnerBps + newFeeBps == BPS_DENOMINATOR, "Split must add up to 10000 bps");
+        require(!drawPending, "Draw in progress");
+        winnerBps = newWinnerBps;
+        feeBps = newFeeBps;
+        emit PrizeSplitChanged(newWinnerBps, newFeeBps);
+    }
+
+    /// @notice Set how long rounds accept entries
+    /// @param duration The length of a round in seconds, 0 for rounds without a deadline
+    /// @dev Also reschedules the current round to close `duration` from now
+    function setRoundDuration(uint256 duration) external onlyOwner {
+        require(!drawPending, "Draw in progress");
+        roundDuration = duration;
+        emit RoundDurationChanged(duration);
+        scheduleRound();
+    }
+
+    /// @notice Set the fewest entries a round needs before it can be drawn
+    /// @param newMinEntries The new minimum, 0 or 1 to draw any round with an entry
+    function setMinEntries(uint256 newMinEntries) external onlyOwner {
+        minEntries = newMinEntries;
+        emit MinEntriesChanged(newMinEntries);
+    }
+
+    /// @notice Set the prize table used by RandomEntry draws
+    /// @param tiers The share of each tier in basis points of the winners' part of the pool,
+    /// first prize first
+    /// @dev Every tier needs a share and the shares must add up to BPS_DENOMINATOR. Each tier goes
+    /// to a different participant
+    function setPrizeTiers(uint256[] calldata tiers) external onlyOwner {
+        require(tiers.length > 0 && tiers.length <= MAX_PRIZE_TIERS, "Invalid number of tiers");
+        require(!drawPending, "Draw in progress");
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            require(tiers[i] > 0, "Tier share cannot be zero");
+            total += tiers[i];
+        }
+        require(total == BPS_DENOMINATOR, "Tiers must add up to 10000 bps");
+
+        prizeTiers = tiers;
+        emit PrizeTiersChanged(tiers);
+    }
+
+    /// @notice Set the address credited with the fee of each round
+    /// @param newFeeRecipient The new fee recipient
+    function setFeeRecipient(address newFeeRecipient) external onlyOwner {
+        require(newFeeRecipient != address(0), "Invalid fee recipient");
+        feeRecipient = newFeeRecipient;
+        emit FeeRecipientChanged(newFeeRecipient);
+    }
+
     /// @notice Set the entry fee
     /// @param newFee The new entry fee in wei
     function setEntryFee(uint256 newFee) external onlyOwner {
         entryFee = newFee;
     }
 
-    /// @notice Emergency withdraw all funds
+    /// @notice Emergency withdraw all funds that are not owed to past winners or refunds
+    /// @dev Includes the entry fees of the current round; call cancelRound first to refund them.
+    /// Taking the pool ends the current round without a draw or refunds, so that no later draw or
+    /// cancellation books prizes or refunds against ETH the contract no longer holds
     function emergencyWithdraw() external onlyOwner {
-        (bool success, ) = payable(owner).call{ value: address(this).balance }("");
+        uint256 reserved = totalPendingWithdrawals + totalPendingRefunds;
+        uint256 amount = address(this).balance - reserved;
+        uint256 round = roundNumber;
+        uint256 drainedPool = prizePool;
+
+        if (drainedPool > 0) {
+            clearPendingDraw();
+            resetLottery();
+        }
+
+        (bool success, ) = payable(owner).call{ value: amount }("");
         require(success, "Withdrawal failed");
+
+        emit EmergencyWithdrawal(owner, amount, round, drainedPool);
     }
 
     /// @notice Allow direct donations to prize pool
@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { IRandomnessConsumer, IRandomnessSource } from "./IRandomnessSource.sol";
+
+/// @title Randomness source based on operator commitments
+/// @author FHEVM Examples
+/// @notice The operator commits keccak256(secret) for secrets it keeps off-chain. Each request
+/// takes the oldest unused commitment, and its word is keccak256(secret, blockhash) of the
+/// request block once the operator reveals the secret
+/// @dev The operator commits before the request block exists and the requester never sees the
+/// secret, so neither can choose the word alone. The operator can still withhold a reveal it
+/// dislikes; consumers should be able to give up on a request (see PrivateLottery.cancelRound)
+contract CommitRevealRandomnessSource is IRandomnessSource {
+  struct Request {
+    address consumer;
+    bytes32 commitment;
+    uint256 blockNumber;
+    bool fulfilled;
+  }
+
+  address public operator;
+  uint256 public requestCount;
+  bytes32[] public commitments;
+  /// @notice Index in commitments of the next commitment to use
+  uint256 public nextCommitment;
+  mapping(uint256 => Request) public requests;
+
+  event Committed(uint256 indexed index, bytes32 commitment);
+
+  modifier onlyOperator() {
+    require(msg.sender == operator, "Only operator can call this function");
+    _;
+  }
+
+  constructor() {
+    operator = msg.sender;
+  }
+
+  /// @notice Add commitments for future requests, used in order
+  /// @param newCommitments keccak256(abi.encodePacked(secret)) of each secret
+  function commit(bytes32[] calldata newCommitments) external onlyOperator {
+    for (uint256 i = 0; i < newCommitments.length; i++) {
+      emit Committed(commitments.length, newCommitments[i]);
+      commitments.push(newCommitments[i]);
+    }
+  }
+
+  /// @notice Number of commitments left for future requests
+  function availableCommitments() external view returns (uint256) {
+    return commitments.length - nextCommitment;
+  }
+
+  /// @inheritdoc IRandomnessSource
+  function requestRandomness() external returns (uint256 requestId) {
+    require(nextCommitment < commitments.length, "No commitment available");
+
+    requestId = ++requestCount;
+    requests[requestId] = Request({
+      consumer: msg.sender,
+      commitment: commitments[nextCommitment++],
+      blockNumber: block.number,
+      fulfilled: false
+    });
+
+    emit RandomnessRequested(requestId, msg.sender);
+  }
+
+  /// @notice Reveal the secret of a request and deliver its word to the consumer
+  /// @dev Possible from the block after the request for the next 256 blocks, while the hash of
+  /// the request block is available
+  function reveal(uint256 requestId, bytes32 secret) external onlyOperator {
+    Request storage request = requests[requestId];
+    require(request.consumer != address(0), "Unknown request");
+    require(!request.fulfilled, "Request already fulfilled");
+    require(keccak256(abi.encodePacked(secret)) == request.commitment, "Invalid secret");
+    require(block.number > request.blockNumber, "Reveal too early");
+    bytes32 blockHash = blockhash(request.blockNumber);
+    require(blockHash != bytes32(0), "Reveal window expired");
+
+    request.fulfilled = true;
+    uint256 randomWord = uint256(keccak256(abi.encodePacked(secret, blockHash)));
+
+    emit RandomnessFulfilled(requestId, randomWord);
+    IRandomnessConsumer(request.consumer).fulfillRandomness(requestId, randomWord);
+  }
+}
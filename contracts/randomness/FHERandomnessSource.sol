@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IRandomnessConsumer, IRandomnessSource } from "./IRandomnessSource.sol";
+
+/// @title Randomness source backed by FHE.randEuint32
+/// @author FHEVM Examples
+/// @notice Each request draws an encrypted random number and makes it publicly decryptable.
+/// Anyone can relay its public decryption to fulfill, which verifies the KMS signatures and
+/// hands the number to the consumer
+/// @dev The number is generated by the FHE coprocessor and stays encrypted until the request
+/// was mined, so neither the requester nor the relayer can predict or choose it
+contract FHERandomnessSource is IRandomnessSource, ZamaEthereumConfig {
+  struct Request {
+    address consumer;
+    euint32 number;
+    bool fulfilled;
+  }
+
+  uint256 public requestCount;
+  mapping(uint256 => Request) private requests;
+
+  /// @inheritdoc IRandomnessSource
+  function requestRandomness() external returns (uint256 requestId) {
+    requestId = ++requestCount;
+    euint32 number = FHE.makePubliclyDecryptable(FHE.randEuint32());
+    requests[requestId] = Request({ consumer: msg.sender, number: number, fulfilled: false });
+
+    emit RandomnessRequested(requestId, msg.sender);
+  }
+
+  /// @notice Get the handle to publicly decrypt for a request
+  function getRequestHandle(uint256 requestId) external view returns (bytes32) {
+    require(requests[requestId].consumer != address(0), "Unknown request");
+    return FHE.toBytes32(requests[requestId].number);
+  }
+
+  /// @notice Deliver the public decryption of a request to its consumer
+  /// @param requestId The request to fulfill
+  /// @param abiEncodedCleartexts The decrypted value of getRequestHandle(requestId), ABI-encoded
+  /// @param decryptionProof The KMS proof for that value
+  function fulfill(uint256 requestId, bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof) external {
+    Request storage request = requests[requestId];
+    require(request.consumer != address(0), "Unknown request");
+    require(!request.fulfilled, "Request already fulfilled");
+
+    bytes32[] memory handles = new bytes32[](1);
+    handles[0] = FHE.toBytes32(request.number);
+    FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+    request.fulfilled = true;
+    uint256 randomWord = abi.decode(abiEncodedCleartexts, (uint32));
+
+    emit RandomnessFulfilled(requestId, randomWord);
+    IRandomnessConsumer(request.consumer).fulfillRandomness(requestId, randomWord);
+  }
+}
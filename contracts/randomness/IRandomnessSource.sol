@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.19;
+
+/// @title Randomness source for lottery draws
+/// @author FHEVM Examples
+/// @notice Answers asynchronously: requestRandomness returns a request id, and the source later
+/// calls fulfillRandomness on the requesting contract with that id and the random word
+/// @dev The word must be unknown to the requester when it asks for it, so whoever triggers a
+/// draw cannot grind the result by choosing when to call it
+interface IRandomnessSource {
+  event RandomnessRequested(uint256 indexed requestId, address indexed consumer);
+  event RandomnessFulfilled(uint256 indexed requestId, uint256 randomWord);
+
+  /// @notice Ask for a random word, delivered to msg.sender through fulfillRandomness
+  /// @return requestId The id passed back with the word
+  function requestRandomness() external returns (uint256 requestId);
+}
+
+/// @title Contract that receives words from an IRandomnessSource
+interface IRandomnessConsumer {
+  /// @notice Called by the source with the word of one of the consumer's requests
+  /// @dev Implementations must check that msg.sender is their source and that they are
+  /// waiting for this request id
+  function fulfillRandomness(uint256 requestId, uint256 randomWord) external;
+}
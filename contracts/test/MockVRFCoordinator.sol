@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { IRandomnessConsumer, IRandomnessSource } from "../randomness/IRandomnessSource.sol";
+
+/// @title VRF-style coordinator for tests
+/// @notice Test helper: records requests and lets the test deliver any word it likes, the way a
+/// VRF coordinator delivers verified words to its consumers
+contract MockVRFCoordinator is IRandomnessSource {
+  uint256 public requestCount;
+  mapping(uint256 => address) public consumers;
+
+  function requestRandomness() external returns (uint256 requestId) {
+    requestId = ++requestCount;
+    consumers[requestId] = msg.sender;
+
+    emit RandomnessRequested(requestId, msg.sender);
+  }
+
+  function fulfillRandomWords(uint256 requestId, uint256 randomWord) external {
+    address consumer = consumers[requestId];
+    require(consumer != address(0), "Unknown request");
+    delete consumers[requestId];
+
+    emit RandomnessFulfilled(requestId, randomWord);
+    IRandomnessConsumer(consumer).fulfillRandomness(requestId, randomWord);
+  }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { PrivateLottery } from "../PrivateLottery.sol";
+
+/// @title Lottery participant that refuses ETH
+/// @notice Test helper: enters a PrivateLottery from a contract whose receive() always reverts
+contract RevertingReceiver {
+  /// @notice Make any call from this contract, such as entering or claiming from another lottery
+  function execute(address target, bytes calldata data) external payable {
+    (bool success, bytes memory reason) = target.call{ value: msg.value }(data);
+    if (!success) {
+      assembly {
+        revert(add(reason, 32), mload(reason))
+      }
+    }
+  }
+
+  function enter(PrivateLottery lottery, externalEuint32 encryptedNumber, bytes calldata inputProof) external payable {
+    lottery.enterLottery{ value: msg.value }(encryptedNumber, inputProof);
+  }
+
+  function claim(PrivateLottery lottery) external {
+    lottery.claimPrize();
+  }
+
+  receive() external payable {
+    revert("Payments refused");
+  }
+}
@@ -1,12 +1,28 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+import { DEFAULT_RANDOMNESS_SOURCE, RANDOMNESS_SOURCES, parseRandomnessSource } from "../tasks/utils/deployments";
+
 const deploy: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy: deployContract } = hre.deployments;
 
+  // RANDOMNESS_SOURCE=fhe|commit-reveal|none picks where the draws get their random words
+  const sourceName = parseRandomnessSource(process.env.RANDOMNESS_SOURCE ?? DEFAULT_RANDOMNESS_SOURCE);
+  const sourceContract = RANDOMNESS_SOURCES[sourceName];
+  let randomnessSource = hre.ethers.ZeroAddress;
+  if (sourceContract !== undefined) {
+    const sourceResult = await deployContract(sourceContract, {
+      from: deployer,
+      log: true,
+    });
+    randomnessSource = sourceResult.address;
+    console.log(`${sourceContract} deployed to: ${randomnessSource}`);
+  }
+
   const deploymentResult = await deployContract("PrivateLottery", {
     from: deployer,
+    args: [randomnessSource],
     log: true,
   });
 
@@ -10,6 +10,9 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 // Import custom tasks
+import "./tasks/AnonymousLottery";
+import "./tasks/LotteryHistory";
+import "./tasks/LotteryWatch";
 import "./tasks/PrivateLottery";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
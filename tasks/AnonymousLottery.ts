@@ -0,0 +1,332 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { loadLottery } from "./utils/lotteryAdapter";
+import {
+  LotteryTaskError,
+  TaskOutput,
+  amount,
+  lotteryTask,
+  parseCount,
+  timestamp,
+  withTaskOutput,
+} from "./utils/output";
+import { SIGNER_PARAM_DESCRIPTION, requireLotteryOwner, resolveSigner } from "./utils/signers";
+import {
+  CommittedTicketRecord,
+  TicketPicks,
+  lotteryTicketsPath,
+  readCommittedTickets,
+  saveCommittedTickets,
+} from "./utils/tickets";
+
+// AnonymousLottery.enterLottery and commitTicket buy at most 10 tickets at once
+const MAX_TICKETS_PER_ENTRY = 10;
+
+function parsePicks(value: string): TicketPicks {
+  const picks = value.split(",").map((pick) => pick.trim());
+  if (picks.length !== 3 || picks.some((pick) => pick !== "true" && pick !== "false")) {
+    throw new LotteryTaskError(
+      "INVALID_ARGUMENT",
+      `Invalid --picks ${value}: expected three comma-separated true/false values`,
+    );
+  }
+  return picks.map((pick) => pick === "true") as TicketPicks;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+lotteryTask(
+  "commit-ticket",
+  "Buy AnonymousLottery tickets for salted picks, keeping the salt locally for reveal-ticket",
+)
+  .addParam("address", "AnonymousLottery contract address")
+  .addParam("picks", "Three comma-separated true/false picks (e.g. true,false,true)")
+  .addOptionalParam("tickets", "Number of tickets for these picks (1-10)", "1")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("commit-ticket", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const picks = parsePicks(taskArgs.picks);
+      const tickets = Number(taskArgs.tickets);
+      if (!Number.isInteger(tickets) || tickets < 1 || tickets > MAX_TICKETS_PER_ENTRY) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid --tickets ${taskArgs.tickets}: expected 1-${MAX_TICKETS_PER_ENTRY}`,
+        );
+      }
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("AnonymousLottery", "commit-ticket");
+      const lottery = adapter.contract;
+
+      if (!(await lottery.isLotteryActive())) {
+        throw new LotteryTaskError("LOTTERY_INACTIVE", "Lottery is not active");
+      }
+      if ((await lottery.revealDuration()) === 0n) {
+        throw new LotteryTaskError(
+          "UNSUPPORTED_CONTRACT",
+          `${adapter.address} is not in commit-reveal mode; use its plaintext entries or ask the owner to enable it`,
+        );
+      }
+      const round: bigint = await lottery.getCurrentRound();
+      const revealDeadline: bigint = await lottery.revealDeadline();
+      if (revealDeadline > 0n) {
+        throw new LotteryTaskError(
+          "ROUND_CLOSED",
+          `Round ${round} takes no more commitments; it reveals until ${timestamp(revealDeadline).iso}`,
+        );
+      }
+
+      const participant = await signer.getAddress();
+      const salt = hre.ethers.hexlify(hre.ethers.randomBytes(32));
+      const commitment: string = await lottery.ticketCommitment(...picks, salt, participant);
+      const value = (await lottery.getEntryFee()) * BigInt(tickets);
+
+      // The salt is saved before anything is sent: tickets whose salt is lost can never be revealed
+      const record: CommittedTicketRecord = {
+        lottery: adapter.address,
+        round: round.toString(),
+        participant,
+        picks,
+        salt,
+        commitment,
+        ticketCount: tickets.toString(),
+        committedAt: new Date().toISOString(),
+      };
+      const others = readCommittedTickets(hre).filter((ticket) => ticket.commitment !== commitment);
+      const ticketsFile = saveCommittedTickets(hre, [...others, record]);
+
+      out.log(`Committing ${tickets} ticket(s) for`, participant, "...");
+      let tx;
+      try {
+        tx = await lottery.commitTicket(commitment, { value });
+      } catch (error) {
+        // Nothing was sent, so the salt can go
+        saveCommittedTickets(hre, others);
+        throw error;
+      }
+      // Once sent, the commitment can be mined even if waiting for it fails, so the salt stays;
+      // reveal-ticket skips commitments that never made it on-chain
+      saveCommittedTickets(hre, [...others, { ...record, commitTransaction: tx.hash }]);
+      const transactionHash: string = (await tx.wait())?.hash ?? tx.hash;
+
+      out.log("✅ Tickets committed");
+      out.log("Round:", round.toString());
+      out.log("Commitment:", commitment);
+      out.log("Paid:", hre.ethers.formatEther(value), "ETH");
+      out.log("Salt stored in:", path.relative(hre.config.paths.root, ticketsFile));
+      out.log("Transaction:", transactionHash);
+      out.log("Reveal the picks with reveal-ticket once the owner opens the reveal window");
+
+      out.result({
+        participant,
+        round,
+        commitment,
+        tickets,
+        paid: amount(value),
+        ticketsFile,
+        transactionHash,
+      });
+    }),
+  );
+
+lotteryTask("reveal-ticket", "Reveal the AnonymousLottery picks the signer committed to in the current round")
+  .addParam("address", "AnonymousLottery contract address")
+  .addOptionalParam("commitment", "Only reveal this commitment (defaults to every unrevealed one of the signer)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("reveal-ticket", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("AnonymousLottery", "reveal-ticket");
+      const lottery = adapter.contract;
+
+      const round: bigint = await lottery.getCurrentRound();
+      const revealDeadline: bigint = await lottery.revealDeadline();
+      if (revealDeadline === 0n) {
+        throw new LotteryTaskError(
+          "ROUND_OPEN",
+          `Round ${round} still takes commitments; its reveal window is not open`,
+        );
+      }
+      const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+      if (now >= revealDeadline) {
+        throw new LotteryTaskError(
+          "ROUND_CLOSED",
+          `The reveal window of round ${round} closed at ${timestamp(revealDeadline).iso}; unrevealed tickets are forfeited`,
+        );
+      }
+
+      const participant = await signer.getAddress();
+      const stored = readCommittedTickets(hre);
+      const pending = [];
+      for (const ticket of stored) {
+        if (
+          !sameAddress(ticket.lottery, adapter.address) ||
+          ticket.round !== round.toString() ||
+          !sameAddress(ticket.participant, participant) ||
+          ticket.revealTransaction !== undefined ||
+          (taskArgs.commitment !== undefined && ticket.commitment !== taskArgs.commitment)
+        ) {
+          continue;
+        }
+        // Skip commitments that never made it on-chain or were revealed without this file
+        const onChain = await lottery.committedTickets(round, participant, ticket.commitment);
+        if (sameAddress(onChain.participant, participant) && !onChain.revealed) {
+          pending.push(ticket);
+        }
+      }
+      if (pending.length === 0) {
+        throw new LotteryTaskError(
+          "NOTHING_TO_REVEAL",
+          `No unrevealed commitments of ${participant} for round ${round} in ` +
+            path.relative(hre.config.paths.root, lotteryTicketsPath(hre)),
+        );
+      }
+
+      const revealed = [];
+      for (const ticket of pending) {
+        out.log(`Revealing commitment ${ticket.commitment}...`);
+        const receipt = await (await lottery.revealTicket(...ticket.picks, ticket.salt)).wait();
+        ticket.revealTransaction = receipt?.hash;
+        saveCommittedTickets(hre, stored);
+        revealed.push({
+          commitment: ticket.commitment,
+          picks: ticket.picks,
+          tickets: Number(ticket.ticketCount),
+          transactionHash: ticket.revealTransaction,
+        });
+      }
+      const entryCount: bigint = await lottery.getEntryCount();
+
+      out.log(`✅ Revealed ${revealed.length} commitment(s)`);
+      out.log("Round:", round.toString());
+      out.log(
+        "Tickets Entered:",
+        revealed.reduce((sum, ticket) => sum + ticket.tickets, 0),
+      );
+      out.log("Entry Count:", entryCount.toString());
+
+      out.result({ participant, round, revealed, entryCount });
+    }),
+  );
+
+lotteryTask("start-reveal", "Close the commit phase of the current AnonymousLottery round and open its reveal window")
+  .addParam("address", "AnonymousLottery contract address")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("start-reveal", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("AnonymousLottery", "start-reveal");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "start-reveal");
+
+      if ((await lottery.revealDuration()) === 0n) {
+        throw new LotteryTaskError("UNSUPPORTED_CONTRACT", `${adapter.address} is not in commit-reveal mode`);
+      }
+      const round: bigint = await lottery.getCurrentRound();
+      const currentDeadline: bigint = await lottery.revealDeadline();
+      if (currentDeadline > 0n) {
+        throw new LotteryTaskError(
+          "ROUND_CLOSED",
+          `Round ${round} already reveals until ${timestamp(currentDeadline).iso}`,
+        );
+      }
+      const commitments: bigint = await lottery.commitmentCount(round);
+      if (commitments === 0n) {
+        throw new LotteryTaskError("NO_ENTRIES", `No commitments in round ${round}`);
+      }
+
+      out.log(`Opening the reveal window of round ${round} (${commitments} commitments)...`);
+
+      const receipt = await (await lottery.startReveal()).wait();
+      const revealDeadline: bigint = await lottery.revealDeadline();
+
+      out.log("✅ Participants can reveal until", timestamp(revealDeadline).iso);
+
+      out.result({ round, commitments, revealDeadline: timestamp(revealDeadline), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-reveal-duration", "Turn AnonymousLottery commit-reveal mode on with a reveal window, or off with 0")
+  .addParam("address", "AnonymousLottery contract address")
+  .addParam("duration", "Reveal window in seconds, 0 to sell plaintext tickets again")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-reveal-duration", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const duration = parseCount(taskArgs.duration, "duration");
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("AnonymousLottery", "set-reveal-duration");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-reveal-duration");
+
+      // The mode only changes between rounds, so no ticket is sold under one mode and drawn under the other
+      const round: bigint = await lottery.getCurrentRound();
+      if ((await lottery.getEntryCount()) > 0n || (await lottery.commitmentCount(round)) > 0n) {
+        throw new LotteryTaskError(
+          "ROUND_OPEN",
+          `Round ${round} already has tickets; change the reveal duration once it is drawn`,
+        );
+      }
+
+      out.log("Setting reveal duration to:", duration === 0n ? "off (plaintext tickets)" : `${duration} seconds`);
+      const receipt = await (await lottery.setRevealDuration(duration)).wait();
+
+      out.log("✅ Reveal duration updated");
+
+      out.result({ round, revealDuration: duration, transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask(
+  "roll-over-round",
+  "Move the pool of an AnonymousLottery round in which no ticket was revealed to the next round",
+)
+  .addParam("address", "AnonymousLottery contract address")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("roll-over-round", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("AnonymousLottery", "roll-over-round");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "roll-over-round");
+
+      const round: bigint = await lottery.getCurrentRound();
+      if ((await lottery.commitmentCount(round)) === 0n) {
+        throw new LotteryTaskError("NO_ENTRIES", `No commitments in round ${round}`);
+      }
+      const revealDeadline: bigint = await lottery.revealDeadline();
+      const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+      if (revealDeadline === 0n || now < revealDeadline) {
+        throw new LotteryTaskError(
+          "ROUND_OPEN",
+          revealDeadline === 0n
+            ? `Round ${round} still takes commitments; open its reveal window with start-reveal`
+            : `Round ${round} reveals until ${timestamp(revealDeadline).iso}`,
+        );
+      }
+      const entryCount: bigint = await lottery.getEntryCount();
+      if (entryCount > 0n) {
+        throw new LotteryTaskError(
+          "ROUND_OPEN",
+          `Round ${round} has ${entryCount} revealed ticket(s); draw it with draw-winner instead`,
+        );
+      }
+
+      const pool: bigint = await lottery.getPrizePool();
+      out.log(`Rolling the pool of round ${round} over to round ${round + 1n}...`);
+      const receipt = await (await lottery.rollOverRound()).wait();
+
+      out.log("✅ Round", round.toString(), "closed without a draw");
+      out.log("Pool Carried Over:", hre.ethers.formatEther(pool), "ETH");
+
+      out.result({ round, nextRound: round + 1n, rolledOverPool: amount(pool), transactionHash: receipt?.hash });
+    }),
+  );
@@ -0,0 +1,227 @@
+import type { Log } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { loadLottery } from "./utils/lotteryAdapter";
+import { LotteryTaskError, TaskOutput, amount, lotteryTask, toJson, withTaskOutput } from "./utils/output";
+
+interface RoundHistory {
+  round: bigint;
+  entries: bigint;
+  participants: Set<string>;
+  // The pool the round closed with, or the live pool of the current round
+  pool?: bigint;
+  winners: { winner: string; prize: bigint; tier: bigint }[];
+  cancelled: boolean;
+  startBlock?: number;
+  endBlock?: number;
+}
+
+// The anonymous lotteries pay this share of the pool to their single winner, rounded down
+const ANONYMOUS_WINNER_PERCENT = 80n;
+
+const CSV_COLUMNS = [
+  "round",
+  "entries",
+  "uniqueParticipants",
+  "totalPoolWei",
+  "totalPoolEther",
+  "winners",
+  "prizesWei",
+  "prizesEther",
+  "cancelled",
+  "startedAt",
+  "endedAt",
+  "durationSeconds",
+];
+
+function parseBlock(value: string, name: string): number {
+  const block = Number(value);
+  if (!Number.isInteger(block) || block < 0) {
+    throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --${name} ${value}: expected a block number`);
+  }
+  return block;
+}
+
+async function inBatches<T>(items: T[], size: number, fn: (item: T) => Promise<void>) {
+  for (let i = 0; i < items.length; i += size) {
+    await Promise.all(items.slice(i, i + size).map(fn));
+  }
+}
+
+lotteryTask("lottery-history", "Rebuild per-round statistics from lottery events")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("fromBlock", "First block to scan", "0")
+  .addOptionalParam("toBlock", "Last block to scan (defaults to the latest block)")
+  .addOptionalParam("chunkSize", "Number of blocks per eth_getLogs request", "2000")
+  .addOptionalParam("out", "Write the rounds to a .csv or .json file instead of printing a table")
+  .setAction(
+    withTaskOutput("lottery-history", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const adapter = await loadLottery(hre, taskArgs.address);
+      const lottery = adapter.contract;
+      const provider = hre.ethers.provider;
+
+      const fromBlock = parseBlock(taskArgs.fromBlock, "from-block");
+      const toBlock =
+        taskArgs.toBlock !== undefined ? parseBlock(taskArgs.toBlock, "to-block") : await provider.getBlockNumber();
+      const chunkSize = parseBlock(taskArgs.chunkSize, "chunk-size");
+      if (fromBlock > toBlock || chunkSize === 0) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid block range ${fromBlock}-${toBlock} with chunk size ${chunkSize}`,
+        );
+      }
+
+      const outFormat = taskArgs.out !== undefined ? path.extname(taskArgs.out).toLowerCase() : undefined;
+      if (outFormat !== undefined && outFormat !== ".csv" && outFormat !== ".json") {
+        throw new LotteryTaskError("INVALID_ARGUMENT", `Unsupported --out ${taskArgs.out}: use a .csv or .json file`);
+      }
+
+      // RoundCancelled and NoWinningEntry only exist on some of the contracts
+      const topics = ["LotteryEntered", "WinnerDrawn", "LotteryReset", "RoundCancelled", "NoWinningEntry"]
+        .map((name) => lottery.interface.getEvent(name)?.topicHash)
+        .filter((topic) => topic !== undefined);
+
+      // The anonymous lotteries delete their entries at the end of every round, so only the logs cover every contract
+      const logs: Log[] = [];
+      for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, toBlock);
+        out.log(`Scanning blocks ${start}-${end}...`);
+        logs.push(
+          ...(await provider.getLogs({ address: adapter.address, fromBlock: start, toBlock: end, topics: [topics] })),
+        );
+      }
+
+      const rounds = new Map<bigint, RoundHistory>();
+      const roundOf = (round: bigint) => {
+        let history = rounds.get(round);
+        if (history === undefined) {
+          history = { round, entries: 0n, participants: new Set(), winners: [], cancelled: false };
+          rounds.set(round, history);
+        }
+        return history;
+      };
+
+      for (const log of logs) {
+        const event = lottery.interface.parseLog(log);
+        if (event?.name === "LotteryEntered") {
+          const entered = adapter.decodeLotteryEntered(event);
+          const history = roundOf(entered.round);
+          history.entries += entered.tickets;
+          history.participants.add(entered.participant);
+          history.startBlock ??= log.blockNumber;
+        } else if (event?.name === "WinnerDrawn") {
+          // Winners are emitted in tier order
+          const drawn = adapter.decodeWinnerDrawn(event);
+          const history = roundOf(drawn.round);
+          history.winners.push({ winner: drawn.winner, prize: drawn.prize, tier: drawn.tier });
+          history.endBlock = log.blockNumber;
+        } else if (event?.name === "NoWinningEntry") {
+          const history = roundOf(adapter.decodeNoWinningEntry(event).round);
+          history.pool = event.args.rolledOverPool;
+          history.endBlock = log.blockNumber;
+        } else if (event?.name === "RoundCancelled") {
+          const history = roundOf(event.args.round);
+          history.cancelled = true;
+          history.pool = event.args.refundable + event.args.rolledOverPool;
+          history.endBlock = log.blockNumber;
+        } else if (event?.name === "LotteryReset") {
+          // Every round ends with the reset that opens the next one, also when it was rolled over
+          // without a draw, and that reset is a better start marker than the first entry
+          const newRound: bigint = event.args.newRound;
+          roundOf(newRound).startBlock = log.blockNumber;
+          if (newRound > 1n) {
+            roundOf(newRound - 1n).endBlock ??= log.blockNumber;
+          }
+        }
+      }
+
+      const histories = [...rounds.values()].sort((a, b) => (a.round < b.round ? -1 : 1));
+      if (await adapter.hasFunction("getRound(uint256)")) {
+        await inBatches(histories, 20, async (history) => {
+          history.pool = (await adapter.getRound(history.round))!.pool;
+        });
+      } else {
+        // The anonymous lotteries keep no per-round pools, so a drawn round's pool is the smallest one
+        // its prize is the winner's share of, and the current round's pool is the live one
+        const currentRound: bigint = await lottery.getCurrentRound();
+        for (const history of histories) {
+          const [drawn] = history.winners;
+          if (drawn !== undefined) {
+            history.pool = (drawn.prize * 100n + ANONYMOUS_WINNER_PERCENT - 1n) / ANONYMOUS_WINNER_PERCENT;
+          } else if (history.round === currentRound) {
+            history.pool = await lottery.getPrizePool();
+          }
+        }
+      }
+
+      const blockTimes = new Map<number, number>();
+      const blocks = [
+        ...new Set(histories.flatMap((h) => [h.startBlock, h.endBlock]).filter((b) => b !== undefined)),
+      ] as number[];
+      await inBatches(blocks, 20, async (blockNumber) => {
+        const block = await provider.getBlock(blockNumber);
+        blockTimes.set(blockNumber, block!.timestamp);
+      });
+
+      const rows = histories.map((history) => {
+        const startedAt = history.startBlock !== undefined ? blockTimes.get(history.startBlock) : undefined;
+        const endedAt = history.endBlock !== undefined ? blockTimes.get(history.endBlock) : undefined;
+        return {
+          round: history.round,
+          entries: history.entries,
+          uniqueParticipants: history.participants.size,
+          totalPool: history.pool !== undefined ? amount(history.pool) : null,
+          winners: history.winners.map((drawn) => ({ ...drawn, prize: amount(drawn.prize) })),
+          cancelled: history.cancelled,
+          startedAt: startedAt !== undefined ? new Date(startedAt * 1000).toISOString() : null,
+          endedAt: endedAt !== undefined ? new Date(endedAt * 1000).toISOString() : null,
+          durationSeconds: startedAt !== undefined && endedAt !== undefined ? endedAt - startedAt : null,
+        };
+      });
+
+      if (taskArgs.out !== undefined) {
+        const contents =
+          outFormat === ".json"
+            ? toJson(rows)
+            : [
+                CSV_COLUMNS.join(","),
+                ...rows.map((row) =>
+                  [
+                    row.round,
+                    row.entries,
+                    row.uniqueParticipants,
+                    row.totalPool?.wei ?? "",
+                    row.totalPool?.ether ?? "",
+                    row.winners.map((drawn) => drawn.winner).join(";"),
+                    row.winners.map((drawn) => drawn.prize.wei).join(";"),
+                    row.winners.map((drawn) => drawn.prize.ether).join(";"),
+                    row.cancelled,
+                    row.startedAt ?? "",
+                    row.endedAt ?? "",
+                    row.durationSeconds ?? "",
+                  ].join(","),
+                ),
+              ].join("\n");
+        fs.writeFileSync(taskArgs.out, contents + "\n");
+        out.log(`✅ Wrote ${rows.length} rounds to ${taskArgs.out}`);
+      } else if (rows.length === 0) {
+        out.log("No lottery events in the scanned range");
+      } else if (!out.json) {
+        console.table(
+          rows.map((row) => ({
+            Round: row.round.toString(),
+            Entries: row.entries.toString(),
+            Participants: row.uniqueParticipants,
+            "Pool (ETH)": row.totalPool?.ether ?? "-",
+            Winners: row.cancelled ? "cancelled" : row.winners.map((drawn) => drawn.winner).join(", ") || "-",
+            "Prizes (ETH)": row.winners.map((drawn) => drawn.prize.ether).join(", ") || "-",
+            "Duration (s)": row.durationSeconds ?? "-",
+          })),
+        );
+      }
+
+      out.result({ contract: adapter.kind, fromBlock, toBlock, rounds: rows, file: taskArgs.out ?? null });
+    }),
+  );
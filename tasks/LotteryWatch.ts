@@ -0,0 +1,219 @@
+import type { Log } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { formatWinningNumbers, loadLottery } from "./utils/lotteryAdapter";
+import { LotteryTaskError, TaskOutput, amount, lotteryTask, withTaskOutput } from "./utils/output";
+
+const WATCHED_EVENTS = ["LotteryEntered", "WinnerDrawn", "LotteryReset", "LotteryStatusChanged"];
+
+// Upper bound for the delay between retries while the provider is unreachable
+const MAX_BACKOFF_MS = 30_000;
+
+function parseNonNegative(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --${name} ${value}: expected a non-negative integer`);
+  }
+  return parsed;
+}
+
+lotteryTask(
+  "watch-lottery",
+  "Stream lottery events as they happen, with running round totals",
+  "Print one JSON document per event instead of text",
+)
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("fromBlock", "First block to stream (defaults to the next block)")
+  .addOptionalParam("interval", "Polling interval in milliseconds", "2000")
+  .addOptionalParam("chunkSize", "Number of blocks per eth_getLogs request", "2000")
+  .setAction(
+    withTaskOutput(
+      "watch-lottery",
+      async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+        const adapter = await loadLottery(hre, taskArgs.address);
+        const lottery = adapter.contract;
+        const provider = hre.ethers.provider;
+
+        const interval = parseNonNegative(taskArgs.interval, "interval");
+        const chunkSize = parseNonNegative(taskArgs.chunkSize, "chunk-size");
+        if (chunkSize === 0) {
+          throw new LotteryTaskError("INVALID_ARGUMENT", "Invalid --chunk-size 0: expected at least one block");
+        }
+        const latest = await provider.getBlockNumber();
+        const fromBlock =
+          taskArgs.fromBlock !== undefined ? parseNonNegative(taskArgs.fromBlock, "from-block") : latest + 1;
+
+        // The anonymous lotteries have no LotteryStatusChanged event
+        const topics = WATCHED_EVENTS.map((name) => lottery.interface.getEvent(name)?.topicHash).filter(
+          (topic) => topic !== undefined,
+        ) as string[];
+
+        // Running totals start from the state just before the first streamed block, so that
+        // replaying with --from-block does not count the replayed entries twice
+        const seedTag = Math.max(fromBlock - 1, 0);
+        const totals = {
+          round: (await lottery.getCurrentRound({ blockTag: seedTag })) as bigint,
+          entries: (await lottery.getEntryCount({ blockTag: seedTag })) as bigint,
+          pool: (await lottery.getPrizePool({ blockTag: seedTag })) as bigint,
+          isActive: (await lottery.isLotteryActive({ blockTag: seedTag })) as boolean,
+        };
+
+        out.log(`👀 Watching ${adapter.kind} at ${adapter.address} on ${hre.network.name} from block ${fromBlock}`);
+        out.log(
+          `Round ${totals.round}: ${totals.entries} entries, pool ${hre.ethers.formatEther(totals.pool)} ETH, ` +
+            `${totals.isActive ? "active" : "inactive"}`,
+        );
+        out.log("Press Ctrl+C to stop\n");
+        out.line({
+          event: "WatchStarted",
+          contract: adapter.kind,
+          address: adapter.address,
+          network: hre.network.name,
+          fromBlock,
+          round: totals.round,
+          entries: totals.entries,
+          pool: amount(totals.pool),
+          isActive: totals.isActive,
+        });
+
+        let stopping = false;
+        let wake: (() => void) | undefined;
+        const stop = () => {
+          stopping = true;
+          wake?.();
+        };
+        const sleep = (ms: number) =>
+          new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, ms);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+        process.on("SIGINT", stop);
+        process.on("SIGTERM", stop);
+
+        const blockTimes = new Map<number, number>();
+        const blockTime = async (blockNumber: number) => {
+          let time = blockTimes.get(blockNumber);
+          if (time === undefined) {
+            time = (await provider.getBlock(blockNumber))!.timestamp;
+            blockTimes.set(blockNumber, time);
+          }
+          return time;
+        };
+
+        type Totals = typeof totals;
+
+        // Folds one event into the staged totals and returns what to print for it. Nothing is printed
+        // here, so that a window that fails halfway can be retried without repeating its events
+        const describe = async (log: Log, staged: Totals) => {
+          const event = lottery.interface.parseLog(log);
+          if (event === null) return undefined;
+
+          const time = new Date((await blockTime(log.blockNumber)) * 1000).toISOString();
+          // Events carry no amounts, so the pool is read at the block that emitted the event
+          staged.pool = await lottery.getPrizePool({ blockTag: log.blockNumber });
+
+          let details: Record<string, unknown> = {};
+          let message = "";
+          if (event.name === "LotteryEntered") {
+            const entered = adapter.decodeLotteryEntered(event);
+            staged.round = entered.round;
+            staged.entries += entered.tickets;
+            details = { participant: entered.participant, tickets: entered.tickets };
+            message = `🎫 ${entered.participant} entered round ${entered.round}`;
+          } else if (event.name === "WinnerDrawn") {
+            const drawn = adapter.decodeWinnerDrawn(event);
+            details = {
+              winner: drawn.winner,
+              prize: amount(drawn.prize),
+              tier: drawn.tier,
+              winningNumbers: drawn.winningNumbers,
+            };
+            message =
+              `🏆 ${drawn.winner} won prize ${drawn.tier + 1n} of round ${drawn.round}: ` +
+              `${hre.ethers.formatEther(drawn.prize)} ETH ` +
+              `(winning numbers ${formatWinningNumbers(drawn.winningNumbers)})`;
+          } else if (event.name === "LotteryReset") {
+            staged.round = event.args.newRound;
+            staged.entries = 0n;
+            message = `🔄 Round ${staged.round} started`;
+          } else if (event.name === "LotteryStatusChanged") {
+            staged.isActive = event.args.isActive;
+            details = { isActive: staged.isActive };
+            message = `⏯️  Lottery ${staged.isActive ? "activated" : "deactivated"}`;
+          }
+
+          return {
+            text:
+              `[${time}] #${log.blockNumber} ${message} | round ${staged.round}: ${staged.entries} entries, ` +
+              `pool ${hre.ethers.formatEther(staged.pool)} ETH`,
+            line: {
+              event: event.name,
+              timestamp: time,
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              ...details,
+              round: staged.round,
+              entries: staged.entries,
+              pool: amount(staged.pool),
+            },
+          };
+        };
+
+        // Polls eth_getLogs instead of relying on filter subscriptions, which a restarted node or
+        // dropped connection silently forgets. Blocks are read in windows of --chunk-size, and a window
+        // is printed and folded into the totals only once all of it was read, so after a provider error
+        // the stream resumes at the first window that was not reported yet
+        let nextBlock = fromBlock;
+        let backoff = 0;
+        try {
+          while (!stopping) {
+            try {
+              const head = await provider.getBlockNumber();
+              while (!stopping && head >= nextBlock) {
+                const end = Math.min(nextBlock + chunkSize - 1, head);
+                const logs = await provider.getLogs({
+                  address: adapter.address,
+                  fromBlock: nextBlock,
+                  toBlock: end,
+                  topics: [topics],
+                });
+                const staged = { ...totals };
+                const reports = [];
+                for (const log of logs) {
+                  const report = await describe(log, staged);
+                  if (report !== undefined) reports.push(report);
+                }
+                for (const report of reports) {
+                  out.log(report.text);
+                  out.line(report.line);
+                }
+                Object.assign(totals, staged);
+                nextBlock = end + 1;
+              }
+              if (backoff > 0) {
+                console.error(`✅ Provider reachable again, resuming from block ${nextBlock}`);
+                backoff = 0;
+              }
+              await sleep(interval);
+            } catch (error) {
+              backoff = Math.min(backoff > 0 ? backoff * 2 : 1000, MAX_BACKOFF_MS);
+              const reason = (error as { shortMessage?: string; message?: string }).shortMessage ?? String(error);
+              // Warnings go to stderr so that the --json stream on stdout stays parseable
+              console.error(`⚠️  Provider error (${reason}), retrying in ${backoff / 1000}s`);
+              await sleep(backoff);
+            }
+          }
+        } finally {
+          process.off("SIGINT", stop);
+          process.off("SIGTERM", stop);
+        }
+
+        out.log(`\n👋 Stopped at block ${nextBlock - 1}`);
+        out.line({ event: "WatchStopped", lastBlock: nextBlock - 1 });
+      },
+      { stream: true },
+    ),
+  );
@@ -1,141 +1,1400 @@
-import { task } from "hardhat/config";
+import { type Contract, type ContractTransactionReceipt, type Signer, ZeroAddress } from "ethers";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
 
-task("deploy-lottery", "Deploy the Private Lottery contract")
+import {
+  DEFAULT_RANDOMNESS_SOURCE,
+  LOTTERY_DEPLOYMENT_NAME,
+  RANDOMNESS_SOURCES,
+  parseRandomnessSource,
+  saveLotteryDeployment,
+} from "./utils/deployments";
+import {
+  DRAW_MODES,
+  DrawMode,
+  LotteryKind,
+  LotteryPage,
+  LotteryWinner,
+  formatWinningNumbers,
+  hasSelector,
+  loadLottery,
+  slicePage,
+} from "./utils/lotteryAdapter";
+import {
+  LotteryTaskError,
+  TaskOutput,
+  amount,
+  lotteryTask,
+  parseCount,
+  parseOptionalCount,
+  timestamp,
+  withTaskOutput,
+} from "./utils/output";
+import { confirm } from "./utils/prompt";
+import { SIGNER_PARAM_DESCRIPTION, requireLotteryOwner, resolveSigner } from "./utils/signers";
+
+// PrivateLottery.BPS_DENOMINATOR and PrivateLottery.MAX_PRIZE_TIERS
+const BPS_DENOMINATOR = 10_000n;
+const MAX_PRIZE_TIERS = 10;
+
+function parseBps(value: string, name: string): bigint {
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0 || bps > Number(BPS_DENOMINATOR)) {
+    throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --${name} ${value}: expected basis points in 0-10000`);
+  }
+  return BigInt(bps);
+}
+
+function parseRound(value: string): bigint {
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --round ${value}: expected a round number`);
+  }
+  return BigInt(value);
+}
+
+// The --offset and --limit of a paged listing; without a limit it runs to the last item
+function parsePaging(taskArgs: { offset: string; limit?: string }): { offset: bigint; limit?: bigint } {
+  return {
+    offset: parseCount(taskArgs.offset, "offset"),
+    limit: parseOptionalCount(taskArgs.limit, "limit"),
+  };
+}
+
+// Notes which part of the items a page holds, so a listing is never silently cut short
+function formatPage(page: LotteryPage<unknown>, noun: string): string | undefined {
+  if (page.offset === 0n && BigInt(page.items.length) === page.total) {
+    return undefined;
+  }
+  if (page.items.length === 0) {
+    return `No ${noun} from offset ${page.offset} (${page.total} in all)`;
+  }
+  return `Showing ${page.items.length} of ${page.total} ${noun} from offset ${page.offset}`;
+}
+
+// The --round a task was given, which must have started, or the current round without one
+async function resolveRound(lottery: Contract, value: string | undefined): Promise<bigint> {
+  const currentRound: bigint = await lottery.getCurrentRound();
+  if (value === undefined) {
+    return currentRound;
+  }
+  const round = parseRound(value);
+  if (round > currentRound) {
+    throw new LotteryTaskError(
+      "INVALID_ARGUMENT",
+      `Invalid --round ${value}: round ${round} has not started (the current round is ${currentRound})`,
+    );
+  }
+  return round;
+}
+
+function formatBps(bps: bigint): string {
+  return `${Number(bps) / 100}%`;
+}
+
+function formatDuration(seconds: bigint): string {
+  const h = seconds / 3600n;
+  const m = (seconds % 3600n) / 60n;
+  const s = seconds % 60n;
+  return h > 0n ? `${h}h ${m}m ${s}s` : m > 0n ? `${m}m ${s}s` : `${s}s`;
+}
+
+// Timestamp of the latest block: deadlines are checked against chain time, not the local clock
+async function chainTime(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+  return BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+}
+
+function formatRandomnessSource(address: string, kind: LotteryKind = "PrivateLottery"): string {
+  // FHEAnonymousLottery draws its combination inside the contract and takes no source
+  if (kind === "FHEAnonymousLottery") return "built in (FHE.randEuint8)";
+  return address === ZeroAddress ? "none (block data)" : address;
+}
+
+// Delivers the word a pending draw waits for. An FHERandomnessSource request can be fulfilled by
+// anyone with its public decryption; other sources deliver their words themselves
+async function relayRandomness(
+  hre: HardhatRuntimeEnvironment,
+  lottery: Contract,
+  kind: LotteryKind,
+  signer: Signer,
+  out: TaskOutput,
+): Promise<ContractTransactionReceipt | null> {
+  const randomnessRequestId: bigint = await lottery.randomnessRequestId();
+  if (randomnessRequestId === 0n) {
+    return null;
+  }
+
+  const sourceAddress: string = await lottery.randomnessSource();
+  const code = await hre.ethers.provider.getCode(sourceAddress);
+  if (!hasSelector(hre, code, "fulfill(uint256,bytes,bytes)")) {
+    // A PrivateLottery draw still needs fulfillDraw once the word arrived; an AnonymousLottery one
+    // is settled by the delivery itself
+    const next =
+      kind === "PrivateLottery"
+        ? "run draw-winner again once the source delivered it"
+        : "the draw completes when the source fulfills it; check the winner with get-winners";
+    throw new LotteryTaskError(
+      "RANDOMNESS_PENDING",
+      `The draw waits for randomness request ${randomnessRequestId} of ${sourceAddress}; ${next}`,
+    );
+  }
+
+  out.log(`Decrypting randomness request ${randomnessRequestId} of ${sourceAddress}...`);
+  const source = await hre.ethers.getContractAt("FHERandomnessSource", sourceAddress, signer);
+  const decrypted = await hre.fhevm.publicDecrypt([await source.getRequestHandle(randomnessRequestId)]);
+  const tx = await source.fulfill(randomnessRequestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  return tx.wait();
+}
+
+// Groups winners by round, then by prize tier (EncryptedMatch winners share tier 0)
+function groupWinners(winners: LotteryWinner[]) {
+  const rounds = new Map<bigint, Map<bigint, LotteryWinner[]>>();
+  for (const winner of winners) {
+    const tiers = rounds.get(winner.round) ?? new Map<bigint, LotteryWinner[]>();
+    tiers.set(winner.tier, [...(tiers.get(winner.tier) ?? []), winner]);
+    rounds.set(winner.round, tiers);
+  }
+
+  const ascending = <T>([a]: [bigint, T], [b]: [bigint, T]) => (a < b ? -1 : a > b ? 1 : 0);
+  return [...rounds].sort(ascending).map(([round, tiers]) => ({
+    round,
+    tiers: [...tiers].sort(ascending).map(([tier, tierWinners]) => ({ tier, winners: tierWinners })),
+  }));
+}
+
+lotteryTask("deploy-lottery", "Deploy the Private Lottery contract")
   .addOptionalParam("fee", "Entry fee in ether", "0.001")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    console.log("Deploying Private Lottery contract...");
-
-    const factory = await hre.ethers.getContractFactory("PrivateLottery");
-    const lottery = await factory.deploy();
-
-    await lottery.waitForDeployment();
-    const address = await lottery.getAddress();
-
-    console.log("✅ Private Lottery deployed to:", address);
-    console.log("Initial entry fee:", hre.ethers.parseEther(taskArgs.fee).toString(), "wei");
-    console.log("Owner:", await lottery.owner());
-    console.log("Is active:", await lottery.isLotteryActive());
-    console.log("Current round:", (await lottery.getCurrentRound()).toString());
-  });
-
-task("get-lottery-status", "Get current lottery status")
-  .addParam("address", "Lottery contract address")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address);
-
-    const status = {
-      owner: await lottery.owner(),
-      isActive: await lottery.isLotteryActive(),
-      currentRound: (await lottery.getCurrentRound()).toString(),
-      entryFee: (await lottery.getEntryFee()).toString(),
-      prizePool: hre.ethers.formatEther(await lottery.getPrizePool()),
-      entryCount: (await lottery.getEntryCount()).toString(),
-    };
-
-    console.log("\n📊 Lottery Status:");
-    console.log("─────────────────────────");
-    console.log("Owner:", status.owner);
-    console.log("Is Active:", status.isActive);
-    console.log("Current Round:", status.currentRound);
-    console.log("Entry Fee:", hre.ethers.formatEther(status.entryFee), "ETH");
-    console.log("Prize Pool:", status.prizePool, "ETH");
-    console.log("Entry Count:", status.entryCount);
-    console.log("─────────────────────────\n");
-  });
-
-task("get-winners", "Get all past winners")
-  .addParam("address", "Lottery contract address")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address);
-
-    const winners = await lottery.getAllWinners();
-
-    if (winners.length === 0) {
-      console.log("No winners yet");
-      return;
-    }
-
-    console.log("\n🏆 Winners History:");
-    console.log("─────────────────────────");
-    winners.forEach((winner, index) => {
-      console.log(`\nRound ${index + 1}:`);
-      console.log("  Winner:", winner.winner);
-      console.log("  Prize:", hre.ethers.formatEther(winner.prize), "ETH");
-      console.log("  Winning Numbers:", `${winner.num1}-${winner.num2}-${winner.num3}`);
-      console.log("  Timestamp:", new Date(Number(winner.timestamp) * 1000).toISOString());
-    });
-    console.log("─────────────────────────\n");
-  });
-
-task("get-participant-info", "Get participant information")
-  .addParam("address", "Lottery contract address")
+  .addOptionalParam("active", "Initial active status (true or false)", "true")
+  .addOptionalParam(
+    "randomness",
+    "Randomness source of the draws: fhe, commit-reveal, none (block data) or the address of a deployed source",
+    DEFAULT_RANDOMNESS_SOURCE,
+  )
+  .setAction(
+    withTaskOutput("deploy-lottery", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      if (taskArgs.active !== "true" && taskArgs.active !== "false") {
+        throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --active ${taskArgs.active}: expected true or false`);
+      }
+      const initialFee = hre.ethers.parseEther(taskArgs.fee);
+      const initialActive = taskArgs.active === "true";
+
+      const [deployer] = await hre.ethers.getSigners();
+
+      let randomnessSource: string = taskArgs.randomness;
+      if (!hre.ethers.isAddress(randomnessSource)) {
+        const sourceContract = RANDOMNESS_SOURCES[parseRandomnessSource(taskArgs.randomness)];
+        randomnessSource = hre.ethers.ZeroAddress;
+        if (sourceContract !== undefined) {
+          out.log(`Deploying ${sourceContract}...`);
+          const source = await (await hre.ethers.getContractFactory(sourceContract, deployer)).deploy();
+          await source.waitForDeployment();
+          randomnessSource = await source.getAddress();
+        }
+      }
+
+      out.log("Deploying Private Lottery contract...");
+
+      const factory = await hre.ethers.getContractFactory("PrivateLottery", deployer);
+      const lottery = await factory.deploy(randomnessSource);
+
+      await lottery.waitForDeployment();
+      const address = await lottery.getAddress();
+      const deployReceipt = await lottery.deploymentTransaction()!.wait();
+
+      // The constructor starts every lottery with the same defaults, so apply the requested ones now
+      if ((await lottery.getEntryFee()) !== initialFee) {
+        await (await lottery.setEntryFee(initialFee)).wait();
+      }
+      if ((await lottery.isLotteryActive()) !== initialActive) {
+        await (await lottery.setLotteryActive(initialActive)).wait();
+      }
+
+      const deployment = {
+        address,
+        owner: await lottery.owner(),
+        entryFee: await lottery.getEntryFee(),
+        isActive: await lottery.isLotteryActive(),
+        currentRound: await lottery.getCurrentRound(),
+        randomnessSource: await lottery.randomnessSource(),
+        deployer: deployer.address,
+        transactionHash: deployReceipt!.hash,
+        blockNumber: deployReceipt!.blockNumber,
+        chainId: (await hre.ethers.provider.getNetwork()).chainId,
+      };
+
+      out.log("✅ Private Lottery deployed to:", address);
+      out.log("Initial entry fee:", deployment.entryFee.toString(), "wei");
+      out.log("Owner:", deployment.owner);
+      out.log("Is active:", deployment.isActive);
+      out.log("Current round:", deployment.currentRound.toString());
+      out.log("Randomness source:", formatRandomnessSource(deployment.randomnessSource));
+      out.log("Transaction:", deployment.transactionHash, "(block", deployment.blockNumber.toString() + ")");
+
+      // The in-process hardhat network is gone once the task exits, so there is nothing worth recording
+      let deploymentFile: string | undefined;
+      if (hre.network.name !== "hardhat") {
+        deploymentFile = saveLotteryDeployment(hre, {
+          contract: "PrivateLottery",
+          address,
+          deployer: deployment.deployer,
+          transactionHash: deployment.transactionHash,
+          blockNumber: deployment.blockNumber,
+          chainId: deployment.chainId.toString(),
+          entryFee: deployment.entryFee.toString(),
+          isActive: deployment.isActive,
+          deployedAt: new Date().toISOString(),
+        });
+        out.log("Deployment recorded in:", path.relative(hre.config.paths.root, deploymentFile));
+      }
+
+      // Register it with hardhat-deploy as well so address resolution picks the newest deployment
+      const artifact = await hre.deployments.getExtendedArtifact(LOTTERY_DEPLOYMENT_NAME);
+      await hre.deployments.save(LOTTERY_DEPLOYMENT_NAME, {
+        ...artifact,
+        address,
+        transactionHash: deployment.transactionHash,
+      });
+
+      out.result({ ...deployment, entryFee: amount(deployment.entryFee), deploymentFile });
+    }),
+  );
+
+// A single encrypted input holds at most 2048 bits, i.e. 64 euint32 values
+const MAX_NUMBERS_PER_INPUT = 64;
+
+lotteryTask("enter-lottery", "Enter the lottery with one or more encrypted numbers")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("number", "Lottery number between 1 and 100")
+  .addOptionalParam("numbers", "Comma-separated lottery numbers, one ticket each (e.g. 5,17,42)")
+  .addOptionalParam("signerIndex", "Index of the signer entering the lottery", "0")
+  .addOptionalParam("value", "Amount to pay in ether (defaults to the entry fee for every ticket)")
+  .setAction(
+    withTaskOutput("enter-lottery", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      if ((taskArgs.number === undefined) === (taskArgs.numbers === undefined)) {
+        throw new LotteryTaskError("INVALID_ARGUMENT", "Pass either --number or --numbers");
+      }
+      const rawNumbers: string[] = taskArgs.number !== undefined ? [taskArgs.number] : taskArgs.numbers.split(",");
+      if (rawNumbers.length > MAX_NUMBERS_PER_INPUT) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Too many numbers (${rawNumbers.length}): at most ${MAX_NUMBERS_PER_INPUT} per transaction`,
+        );
+      }
+      const numbers = rawNumbers.map((raw) => {
+        const number = Number(raw.trim());
+        if (raw.trim() === "" || !Number.isInteger(number) || number < 1 || number > 100) {
+          throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid number ${raw}: must be an integer between 1 and 100`);
+        }
+        return number;
+      });
+
+      const signers = await hre.ethers.getSigners();
+      const signerIndex = Number(taskArgs.signerIndex);
+      const signer = signers[signerIndex];
+      if (!Number.isInteger(signerIndex) || signer === undefined) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid signer index ${taskArgs.signerIndex}: ${signers.length} signers available`,
+        );
+      }
+
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "enter-lottery");
+      const lottery = adapter.contract;
+
+      if (!(await lottery.isLotteryActive())) {
+        throw new LotteryTaskError("LOTTERY_INACTIVE", "Lottery is not active");
+      }
+
+      const entryFee: bigint = await lottery.getEntryFee();
+      const totalFee = entryFee * BigInt(numbers.length);
+      const value = taskArgs.value !== undefined ? hre.ethers.parseEther(taskArgs.value) : totalFee;
+      if (value < totalFee) {
+        throw new LotteryTaskError(
+          "INSUFFICIENT_FEE",
+          `Insufficient entry fee: sending ${hre.ethers.formatEther(value)} ETH, ` +
+            `lottery requires ${hre.ethers.formatEther(totalFee)} ETH for ${numbers.length} tickets`,
+        );
+      }
+
+      const closesAt: bigint = await lottery.closesAt();
+      if (closesAt > 0n && (await chainTime(hre)) >= closesAt) {
+        throw new LotteryTaskError(
+          "ROUND_CLOSED",
+          `Round ${await lottery.getCurrentRound()} closed at ${timestamp(closesAt).iso}`,
+        );
+      }
+
+      const maxTickets: bigint = await lottery.maxTicketsPerAddress();
+      const held = BigInt((await lottery.getMyEntries(await lottery.getCurrentRound())).length);
+      if (maxTickets > 0n && held + BigInt(numbers.length) > maxTickets) {
+        throw new LotteryTaskError(
+          "TICKET_LIMIT_REACHED",
+          `${signer.address} holds ${held} of at most ${maxTickets} tickets this round ` +
+            `and cannot buy ${numbers.length} more`,
+        );
+      }
+
+      await hre.fhevm.initializeCLIApi();
+
+      out.log(`Encrypting ${numbers.length === 1 ? "number" : `${numbers.length} numbers`} for`, signer.address, "...");
+      const input = hre.fhevm.createEncryptedInput(adapter.address, signer.address);
+      numbers.forEach((number) => input.add32(number));
+      const encryptedInput = await input.encrypt();
+
+      // All handles of one encrypted input share its proof
+      const tx =
+        numbers.length === 1
+          ? await lottery.enterLottery(encryptedInput.handles[0], encryptedInput.inputProof, { value })
+          : await lottery.enterLotteryBatch(encryptedInput.handles, encryptedInput.inputProof, { value });
+      const receipt = await tx.wait();
+      const entryCount = await lottery.getEntryCount();
+
+      out.log("✅ Entered lottery");
+      out.log("Participant:", signer.address);
+      out.log("Tickets:", numbers.length);
+      out.log("Paid:", hre.ethers.formatEther(value), "ETH");
+      out.log("Transaction:", receipt?.hash);
+      out.log("Entry Count:", entryCount.toString());
+
+      out.result({
+        participant: signer.address,
+        tickets: numbers.length,
+        paid: amount(value),
+        transactionHash: receipt?.hash,
+        entryCount,
+      });
+    }),
+  );
+
+lotteryTask("draw-winner", "Draw the winner of the current round")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("draw-winner", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      const lottery = adapter.contract;
+
+      const round = await lottery.getCurrentRound();
+      const entryCount = await lottery.getEntryCount();
+      if (entryCount === 0n) {
+        throw new LotteryTaskError("NO_ENTRIES", `No entries in round ${round}`);
+      }
+
+      // Only the owner draws rounds without a deadline; timed PrivateLottery rounds can be drawn
+      // by anyone, but only once they closed
+      const closesAt: bigint = adapter.kind === "PrivateLottery" ? await lottery.closesAt() : 0n;
+      const now = await chainTime(hre);
+      if (closesAt === 0n) {
+        await requireLotteryOwner(lottery, signer, "draw-winner");
+      } else if (now < closesAt) {
+        throw new LotteryTaskError(
+          "ROUND_OPEN",
+          `Round ${round} is open until ${timestamp(closesAt).iso} (${formatDuration(closesAt - now)} left)`,
+        );
+      }
+      const minEntries: bigint = adapter.kind === "PrivateLottery" ? await lottery.minEntries() : 0n;
+      if (entryCount < minEntries) {
+        throw new LotteryTaskError(
+          "NO_ENTRIES",
+          `Round ${round} has ${entryCount} of the ${minEntries} entries it needs` +
+            (closesAt > 0n ? "; extend it with extend-round" : ""),
+        );
+      }
+
+      // AnonymousLottery only knows the random entry draw, FHEAnonymousLottery the encrypted match
+      const drawMode: DrawMode =
+        adapter.kind === "PrivateLottery"
+          ? DRAW_MODES[Number(await lottery.drawMode())]
+          : adapter.kind === "FHEAnonymousLottery"
+            ? "EncryptedMatch"
+            : "RandomEntry";
+
+      out.log(`Drawing winner for round ${round} (${entryCount} entries)...`);
+
+      const randomnessSource = await adapter.getRandomnessSource();
+
+      let gasUsed = 0n;
+      let requestId: bigint | null = null;
+      let receipt: ContractTransactionReceipt | null;
+      if (adapter.kind !== "AnonymousLottery") {
+        // Two steps: the contract makes the draw result publicly decryptable, then settles it
+        // with the decrypted values and their KMS proof. With a randomness source the entries are
+        // picked in between, when the source delivers its word. A pending draw is resumed
+        await hre.fhevm.initializeCLIApi();
+        if (!(await lottery.drawPending())) {
+          const requestReceipt: ContractTransactionReceipt | null = await (await lottery.requestDraw()).wait();
+          gasUsed += requestReceipt?.gasUsed ?? 0n;
+        }
+        requestId = await lottery.drawRequestId();
+        if (adapter.kind === "PrivateLottery") {
+          const randomnessReceipt = await relayRandomness(hre, lottery, adapter.kind, signer, out);
+          gasUsed += randomnessReceipt?.gasUsed ?? 0n;
+        }
+
+        out.log(`Decrypting the result of draw request ${requestId}...`);
+        const decrypted = await hre.fhevm.publicDecrypt(await lottery.getDrawHandles());
+
+        const tx = await lottery.fulfillDraw(requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+        receipt = await tx.wait();
+      } else if (randomnessSource === ZeroAddress) {
+        const tx = await lottery.drawWinner();
+        receipt = await tx.wait();
+      } else {
+        // AnonymousLottery settles the draw when the source delivers its word
+        await hre.fhevm.initializeCLIApi();
+        if ((await lottery.randomnessRequestId()) === 0n) {
+          const requestReceipt: ContractTransactionReceipt | null = await (await lottery.requestDraw()).wait();
+          gasUsed += requestReceipt?.gasUsed ?? 0n;
+        }
+        receipt = await relayRandomness(hre, lottery, adapter.kind, signer, out);
+      }
+      if (!receipt) {
+        throw new LotteryTaskError("MISSING_EVENT", "Draw transaction was not mined");
+      }
+      gasUsed += receipt.gasUsed;
+
+      const drawn = [];
+      let noWinningEntry;
+      let lotteryReset;
+      for (const log of receipt.logs) {
+        const parsed = lottery.interface.parseLog(log);
+        if (parsed?.name === "WinnerDrawn") drawn.push(adapter.decodeWinnerDrawn(parsed));
+        if (parsed?.name === "NoWinningEntry") noWinningEntry = adapter.decodeNoWinningEntry(parsed);
+        if (parsed?.name === "LotteryReset") lotteryReset = parsed;
+      }
+      if ((drawn.length === 0 && !noWinningEntry) || !lotteryReset) {
+        throw new LotteryTaskError(
+          "MISSING_EVENT",
+          `WinnerDrawn/LotteryReset events missing from transaction ${receipt.hash}`,
+        );
+      }
+
+      const newRound: bigint = lotteryReset.args.newRound;
+      const winningNumbers = drawn.length > 0 ? drawn[0].winningNumbers : noWinningEntry!.winningNumbers;
+
+      // The new round starts with what rolled over: the whole pool without a winner, or the
+      // prizes of tiers that had no distinct participant left. The fee is the rest of the pool
+      const prizePool: bigint = await lottery.getPrizePool({ blockTag: receipt.blockNumber - 1 });
+      const rolledOver: bigint = await lottery.getPrizePool({ blockTag: receipt.blockNumber });
+      const totalPrize = drawn.reduce((sum, winner) => sum + winner.prize, 0n);
+      const ownerFee = prizePool - totalPrize - rolledOver;
+      const feeRecipient: string =
+        adapter.kind === "PrivateLottery" ? await lottery.feeRecipient() : await lottery.owner();
+
+      out.log("\n🎉 Draw Report:");
+      out.log("─────────────────────────");
+      out.log("Round:", round.toString());
+      out.log("Draw Mode:", drawMode);
+      out.log("Randomness:", formatRandomnessSource(randomnessSource, adapter.kind));
+      if (requestId !== null) out.log("Request Id:", requestId.toString());
+      for (const { winner, prize, tier, winningNumbers } of drawn) {
+        out.log(
+          `Prize ${tier + 1n}:`,
+          winner,
+          `(${hre.ethers.formatEther(prize)} ETH, numbers ${formatWinningNumbers(winningNumbers)})`,
+        );
+      }
+      if (drawn.length === 0) {
+        out.log("Winner: none");
+      }
+      if (rolledOver > 0n) {
+        out.log("Rolled Over:", hre.ethers.formatEther(rolledOver), "ETH");
+      }
+      out.log("Fee:", hre.ethers.formatEther(ownerFee), "ETH", `(to ${feeRecipient})`);
+      out.log("Winning Numbers:", formatWinningNumbers(winningNumbers));
+      out.log("Gas Used:", gasUsed.toString());
+      out.log("Transaction:", receipt.hash);
+      out.log("New Round:", newRound.toString());
+      out.log("─────────────────────────\n");
+      if (drawn.length > 0 && (await adapter.hasFunction("claimPrize()"))) {
+        out.log("Prizes and the fee are credited; collect them with claim-prize");
+      }
+
+      out.result({
+        round,
+        drawMode,
+        randomnessSource,
+        requestId,
+        // First winner kept at the top level for single-winner consumers
+        winner: drawn[0]?.winner ?? null,
+        prize: drawn.length > 0 ? amount(drawn[0].prize) : null,
+        winners: drawn.map(({ winner, prize, tier, winningNumbers }) => ({
+          winner,
+          prize: amount(prize),
+          tier,
+          winningNumbers,
+        })),
+        ownerFee: amount(ownerFee),
+        feeRecipient,
+        rolledOver: amount(rolledOver),
+        winningNumbers,
+        gasUsed,
+        transactionHash: receipt.hash,
+        newRound,
+      });
+    }),
+  );
+
+lotteryTask("get-lottery-status", "Get current lottery status")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("round", "Also report the entries, pool, schedule and winners of this round")
+  .setAction(
+    withTaskOutput("get-lottery-status", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const adapter = await loadLottery(hre, taskArgs.address);
+      const lottery = adapter.contract;
+
+      const status = {
+        contract: adapter.kind,
+        address: adapter.address,
+        owner: await lottery.owner(),
+        isActive: await lottery.isLotteryActive(),
+        currentRound: await lottery.getCurrentRound(),
+        entryFee: await lottery.getEntryFee(),
+        prizePool: await lottery.getPrizePool(),
+        entryCount: await lottery.getEntryCount(),
+        randomnessSource: await adapter.getRandomnessSource(),
+      };
+
+      // The anonymous lotteries always pay 80% to a single winner and the rest to their owner
+      const split =
+        adapter.kind === "PrivateLottery"
+          ? {
+              winnerBps: (await lottery.winnerBps()) as bigint,
+              feeBps: (await lottery.feeBps()) as bigint,
+              feeRecipient: (await lottery.feeRecipient()) as string,
+              prizeTiers: [...(await lottery.getPrizeTiers())] as bigint[],
+            }
+          : { winnerBps: 8_000n, feeBps: 2_000n, feeRecipient: status.owner as string, prizeTiers: [BPS_DENOMINATOR] };
+
+      // The rounds of the anonymous lotteries have no deadline or minimum
+      const schedule =
+        adapter.kind === "PrivateLottery"
+          ? {
+              roundDuration: (await lottery.roundDuration()) as bigint,
+              closesAt: (await lottery.closesAt()) as bigint,
+              minEntries: (await lottery.minEntries()) as bigint,
+            }
+          : { roundDuration: 0n, closesAt: 0n, minEntries: 0n };
+      const now = await chainTime(hre);
+      const secondsRemaining = schedule.closesAt === 0n ? null : schedule.closesAt > now ? schedule.closesAt - now : 0n;
+
+      const round =
+        taskArgs.round !== undefined ? await adapter.getRound(await resolveRound(lottery, taskArgs.round)) : undefined;
+      if (taskArgs.round !== undefined && round === undefined) {
+        throw new LotteryTaskError("UNSUPPORTED_CONTRACT", `${adapter.address} keeps no per-round records`);
+      }
+
+      out.log("\n📊 Lottery Status:");
+      out.log("─────────────────────────");
+      out.log("Contract:", status.contract);
+      out.log("Owner:", status.owner);
+      out.log("Is Active:", status.isActive);
+      out.log("Current Round:", status.currentRound.toString());
+      out.log("Entry Fee:", hre.ethers.formatEther(status.entryFee), "ETH");
+      out.log("Prize Pool:", hre.ethers.formatEther(status.prizePool), "ETH");
+      out.log("Entry Count:", status.entryCount.toString());
+      if (secondsRemaining === null) {
+        out.log("Closes At: no deadline, drawn by the owner");
+      } else if (secondsRemaining > 0n) {
+        out.log("Closes At:", timestamp(schedule.closesAt).iso, `(in ${formatDuration(secondsRemaining)})`);
+      } else {
+        const drawable = status.entryCount > 0n && status.entryCount >= schedule.minEntries;
+        out.log(
+          "Closes At:",
+          timestamp(schedule.closesAt).iso,
+          drawable ? "(closed, anyone can draw)" : "(closed without enough entries, anyone can extend it)",
+        );
+      }
+      if (schedule.minEntries > 0n) out.log("Min Entries:", schedule.minEntries.toString());
+      out.log("Prize Split:", `${formatBps(split.winnerBps)} winners / ${formatBps(split.feeBps)} fee`);
+      out.log("Fee Recipient:", split.feeRecipient);
+      out.log("Prize Tiers:", split.prizeTiers.map(formatBps).join(" / "));
+      out.log("Randomness Source:", formatRandomnessSource(status.randomnessSource, adapter.kind));
+      if (round !== undefined) {
+        out.log(`\nRound ${round.round}:`);
+        out.log("  Entries:", round.entryCount.toString());
+        out.log("  Pool:", hre.ethers.formatEther(round.pool), "ETH");
+        out.log("  Started At:", timestamp(round.startedAt).iso);
+        out.log(
+          "  Ended At:",
+          round.endedAt === 0n
+            ? "still open"
+            : `${timestamp(round.endedAt).iso}${round.cancelled ? " (cancelled)" : ""}`,
+        );
+        for (const winner of round.winners) {
+          out.log(
+            `  Prize ${winner.tier + 1n}:`,
+            winner.winner,
+            `(${hre.ethers.formatEther(winner.prize)} ETH, numbers ${formatWinningNumbers(winner.winningNumbers)})`,
+          );
+        }
+      }
+      out.log("─────────────────────────\n");
+
+      out.result({
+        ...status,
+        ...split,
+        ...schedule,
+        entryFee: amount(status.entryFee),
+        prizePool: amount(status.prizePool),
+        closesAt: schedule.closesAt > 0n ? timestamp(schedule.closesAt) : null,
+        secondsRemaining,
+        round:
+          round === undefined
+            ? null
+            : {
+                round: round.round,
+                entryCount: round.entryCount,
+                pool: amount(round.pool),
+                startedAt: timestamp(round.startedAt),
+                endedAt: round.endedAt === 0n ? null : timestamp(round.endedAt),
+                cancelled: round.cancelled,
+                winners: round.winners.map((winner) => ({
+                  tier: winner.tier,
+                  winner: winner.winner,
+                  prize: amount(winner.prize),
+                  winningNumbers: winner.winningNumbers,
+                })),
+              },
+      });
+    }),
+  );
+
+lotteryTask("get-winners", "Get all past winners, grouped by round and prize tier")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("round", "Only list the winners of this round")
+  .addOptionalParam("offset", "Skip this many winners, oldest first", "0")
+  .addOptionalParam("limit", "List at most this many winners (defaults to all of them)")
+  .setAction(
+    withTaskOutput("get-winners", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const { offset, limit } = parsePaging(taskArgs);
+      const adapter = await loadLottery(hre, taskArgs.address);
+      const round = taskArgs.round !== undefined ? await resolveRound(adapter.contract, taskArgs.round) : undefined;
+
+      // The winners of one round are few; the anonymous lotteries have no round records to read them from
+      let page: LotteryPage<LotteryWinner>;
+      if (round === undefined) {
+        page = await adapter.getWinners(offset, limit);
+      } else {
+        const roundWinners =
+          (await adapter.getRound(round))?.winners ??
+          (await adapter.getWinners()).items.filter((winner) => winner.round === round);
+        page = slicePage(roundWinners, offset, limit);
+      }
+      const winners = page.items;
+      const toResult = (winner: LotteryWinner) => ({
+        round: winner.round,
+        tier: winner.tier,
+        winner: winner.winner,
+        prize: amount(winner.prize),
+        winningNumbers: winner.winningNumbers,
+        timestamp: timestamp(winner.timestamp),
+      });
+      const rounds = groupWinners(winners);
+
+      out.result({
+        contract: adapter.kind,
+        offset: page.offset,
+        total: page.total,
+        winners: winners.map(toResult),
+        rounds: rounds.map(({ round, tiers }) => ({
+          round,
+          tiers: tiers.map(({ tier, winners: tierWinners }) => ({ tier, winners: tierWinners.map(toResult) })),
+        })),
+      });
+
+      if (page.total === 0n) {
+        out.log(round === undefined ? "No winners yet" : `No winners in round ${round}`);
+        return;
+      }
+
+      out.log("\n🏆 Winners History:");
+      out.log("─────────────────────────");
+      const showing = formatPage(page, "winners");
+      if (showing !== undefined) out.log(showing);
+      for (const { round, tiers } of rounds) {
+        out.log(`\nRound ${round}:`);
+        out.log("  Timestamp:", new Date(Number(tiers[0].winners[0].timestamp) * 1000).toISOString());
+        for (const { tier, winners: tierWinners } of tiers) {
+          out.log(`  Prize ${tier + 1n}:`);
+          for (const winner of tierWinners) {
+            out.log(
+              "    Winner:",
+              winner.winner,
+              `(${hre.ethers.formatEther(winner.prize)} ETH, numbers ${formatWinningNumbers(winner.winningNumbers)})`,
+            );
+          }
+        }
+      }
+      out.log("─────────────────────────\n");
+    }),
+  );
+
+lotteryTask("get-participant-info", "Get participant information")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
   .addParam("participant", "Participant address")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address);
-
-    const entries = await lottery.getParticipantEntries(taskArgs.participant);
-    const hasWon = await lottery.hasParticipantWon(taskArgs.participant);
-
-    console.log("\n👤 Participant Information:");
-    console.log("─────────────────────────");
-    console.log("Address:", taskArgs.participant);
-    console.log("Total Entries:", entries.toString());
-    console.log("Has Won:", hasWon ? "✅ Yes" : "❌ No");
-    console.log("─────────────────────────\n");
-  });
-
-task("set-entry-fee", "Set the lottery entry fee")
-  .addParam("address", "Lottery contract address")
+  .addOptionalParam("round", "Round to report entries and wins for (defaults to the current round)")
+  .setAction(
+    withTaskOutput("get-participant-info", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      if (!hre.ethers.isAddress(taskArgs.participant)) {
+        throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid participant address ${taskArgs.participant}`);
+      }
+
+      const adapter = await loadLottery(hre, taskArgs.address);
+
+      const entries = await adapter.getParticipantEntries(taskArgs.participant);
+      const hasWon: boolean = await adapter.contract.hasParticipantWon(taskArgs.participant);
+      const round = await adapter.getParticipantRound(
+        taskArgs.participant,
+        await resolveRound(adapter.contract, taskArgs.round),
+      );
+      if (taskArgs.round !== undefined && round === undefined) {
+        throw new LotteryTaskError("UNSUPPORTED_CONTRACT", `${adapter.address} keeps no per-round records`);
+      }
+
+      out.log("\n👤 Participant Information:");
+      out.log("─────────────────────────");
+      out.log("Address:", taskArgs.participant);
+      out.log("Total Entries:", entries.toString());
+      out.log("Has Won:", hasWon ? "✅ Yes" : "❌ No");
+      if (round !== undefined) {
+        out.log(`Entries in Round ${round.round}:`, round.entries.toString());
+        out.log(`Won in Round ${round.round}:`, round.hasWon ? "✅ Yes" : "❌ No");
+      }
+      out.log("─────────────────────────\n");
+
+      out.result({ participant: taskArgs.participant, totalEntries: entries, hasWon, round: round ?? null });
+    }),
+  );
+
+lotteryTask("list-entries", "List the tickets entered in a round, one per line")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("round", "Round number (defaults to the current round)")
+  .addOptionalParam("offset", "Skip this many tickets, in entry order", "0")
+  .addOptionalParam("limit", "List at most this many tickets (defaults to all of them)")
+  .setAction(
+    withTaskOutput("list-entries", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const { offset, limit } = parsePaging(taskArgs);
+      const adapter = await loadLottery(hre, taskArgs.address);
+      const round = await resolveRound(adapter.contract, taskArgs.round);
+
+      // The anonymous lotteries clear their entries when a round ends
+      if (adapter.kind !== "PrivateLottery" && round !== (await adapter.contract.getCurrentRound())) {
+        throw new LotteryTaskError(
+          "UNSUPPORTED_CONTRACT",
+          `${adapter.address} only keeps the entries of its current round`,
+        );
+      }
+      const page = await adapter.getEntries(round, offset, limit);
+      if (page === undefined) {
+        throw new LotteryTaskError(
+          "UNSUPPORTED_CONTRACT",
+          `${adapter.address} was deployed before getEntries and cannot list its entries`,
+        );
+      }
+
+      out.result({
+        contract: adapter.kind,
+        round,
+        offset: page.offset,
+        total: page.total,
+        entries: page.items.map((ticket) => ({ ...ticket, timestamp: timestamp(ticket.timestamp) })),
+      });
+
+      if (page.total === 0n) {
+        out.log(`No entries in round ${round}`);
+        return;
+      }
+
+      out.log(`\n🎟️  Entries in Round ${round}:`);
+      out.log("─────────────────────────");
+      const showing = formatPage(page, "entries");
+      if (showing !== undefined) out.log(showing);
+      for (const ticket of page.items) {
+        out.log(`#${ticket.index}`, ticket.participant, ticket.ciphertext, timestamp(ticket.timestamp).iso);
+      }
+      out.log("─────────────────────────\n");
+    }),
+  );
+
+lotteryTask("my-tickets", "Decrypt the numbers the signer entered in a round")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .addOptionalParam("round", "Round number (defaults to the current round)")
+  .setAction(
+    withTaskOutput("my-tickets", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "my-tickets");
+      const lottery = adapter.contract;
+
+      const round = await resolveRound(lottery, taskArgs.round);
+      const participant = await signer.getAddress();
+      // getMyEntries reads msg.sender, so the call has to come from the signer
+      const handles: string[] = [...(await lottery.getMyEntries(round))];
+
+      let numbers: bigint[] = [];
+      if (handles.length > 0) {
+        out.log(`Decrypting ${handles.length} tickets of ${participant} in round ${round}...`);
+        await hre.fhevm.initializeCLIApi();
+
+        // One EIP-712 signature authorizes the decryption of every ticket
+        const keypair = hre.fhevm.generateKeypair();
+        const startTimestamp = Math.floor(Date.now() / 1000);
+        const durationDays = 1;
+        const eip712 = hre.fhevm.createEIP712(keypair.publicKey, [adapter.address], startTimestamp, durationDays);
+        const signature = await signer.signTypedData(
+          eip712.domain,
+          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+          eip712.message,
+        );
+
+        const decrypted = await hre.fhevm.userDecrypt(
+          handles.map((handle) => ({ handle, contractAddress: adapter.address })),
+          keypair.privateKey,
+          keypair.publicKey,
+          signature,
+          [adapter.address],
+          participant,
+          startTimestamp,
+          durationDays,
+        );
+        numbers = handles.map((handle) => BigInt(decrypted[handle as `0x${string}`] as bigint));
+      }
+
+      out.result({
+        round,
+        participant,
+        tickets: handles.map((handle, i) => ({ handle, number: numbers[i] })),
+      });
+
+      if (handles.length === 0) {
+        out.log(`No tickets for ${participant} in round ${round}`);
+        return;
+      }
+
+      out.log("\n🎫 My Tickets:");
+      out.log("─────────────────────────");
+      out.log("Round:", round.toString());
+      out.log("Participant:", participant);
+      numbers.forEach((number, i) => out.log(`Ticket ${i + 1}:`, number.toString()));
+      out.log("─────────────────────────\n");
+    }),
+  );
+
+lotteryTask("claim-prize", "Withdraw the prizes and fees credited to the signer")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("claim-prize", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      // Anonymous lottery deployments from before prize claims sent prizes with the draw
+      if (!(await adapter.hasFunction("claimPrize()"))) {
+        throw new LotteryTaskError("UNSUPPORTED_CONTRACT", `${adapter.address} pays prizes when it draws them`);
+      }
+      const lottery = adapter.contract;
+      const account = await signer.getAddress();
+
+      const pending: bigint = await lottery.pendingWithdrawals(account);
+      if (pending === 0n) {
+        throw new LotteryTaskError("NOTHING_TO_CLAIM", `Nothing to claim for ${account}`);
+      }
+
+      out.log("Claiming", hre.ethers.formatEther(pending), "ETH for", account, "...");
+
+      const tx = await lottery.claimPrize();
+      const receipt: ContractTransactionReceipt | null = await tx.wait();
+
+      let claimed = pending;
+      for (const log of receipt?.logs ?? []) {
+        const parsed = lottery.interface.parseLog(log);
+        if (parsed?.name === "PrizeClaimed") claimed = parsed.args.amount;
+      }
+
+      out.log("✅ Prize claimed");
+      out.log("Amount:", hre.ethers.formatEther(claimed), "ETH");
+      out.log("Transaction:", receipt?.hash);
+
+      out.result({ account, claimed: amount(claimed), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-entry-fee", "Set the lottery entry fee")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
   .addParam("fee", "New entry fee in ether")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const signer = await hre.ethers.getSigners();
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address, signer[0]);
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-entry-fee", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const lottery = (await loadLottery(hre, taskArgs.address, signer)).contract;
+      await requireLotteryOwner(lottery, signer, "set-entry-fee");
 
-    const newFee = hre.ethers.parseEther(taskArgs.fee);
-    console.log("Setting entry fee to:", taskArgs.fee, "ETH");
+      const newFee = hre.ethers.parseEther(taskArgs.fee);
+      out.log("Setting entry fee to:", taskArgs.fee, "ETH");
 
-    const tx = await lottery.setEntryFee(newFee);
-    await tx.wait();
+      const tx = await lottery.setEntryFee(newFee);
+      const receipt = await tx.wait();
+      const entryFee = await lottery.getEntryFee();
 
-    console.log("✅ Entry fee updated successfully");
-    console.log("New fee:", hre.ethers.formatEther(await lottery.getEntryFee()), "ETH");
-  });
+      out.log("✅ Entry fee updated successfully");
+      out.log("New fee:", hre.ethers.formatEther(entryFee), "ETH");
 
-task("toggle-lottery", "Toggle lottery active status")
-  .addParam("address", "Lottery contract address")
+      out.result({ entryFee: amount(entryFee), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("toggle-lottery", "Toggle lottery active status")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
   .addOptionalParam("active", "True to activate, false to deactivate", "true")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const signer = await hre.ethers.getSigners();
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address, signer[0]);
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("toggle-lottery", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const lottery = (await loadLottery(hre, taskArgs.address, signer)).contract;
+      await requireLotteryOwner(lottery, signer, "toggle-lottery");
+
+      const shouldActivate = taskArgs.active === "true";
+      out.log(shouldActivate ? "Activating lottery..." : "Deactivating lottery...");
+
+      const tx = await lottery.setLotteryActive(shouldActivate);
+      const receipt = await tx.wait();
+
+      const isActive: boolean = await lottery.isLotteryActive();
+      out.log("✅ Lottery status updated");
+      out.log("Is Active:", isActive ? "✅ Yes" : "❌ No");
+
+      out.result({ isActive, transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-draw-mode", "Choose how PrivateLottery draws its winners")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addParam("mode", `Draw mode (${DRAW_MODES.join(" or ")})`)
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-draw-mode", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const mode = DRAW_MODES.indexOf(taskArgs.mode);
+      if (mode === -1) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid --mode ${taskArgs.mode}: expected ${DRAW_MODES.join(" or ")}`,
+        );
+      }
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "set-draw-mode");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-draw-mode");
+
+      out.log("Setting draw mode to:", taskArgs.mode);
+
+      const tx = await lottery.setDrawMode(mode);
+      const receipt = await tx.wait();
+
+      out.log("✅ Draw mode updated");
+
+      out.result({ drawMode: DRAW_MODES[Number(await lottery.drawMode())], transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-prize-split", "Set how PrivateLottery splits the pool between winners and the fee")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addParam("winnerBps", "Winners' share in basis points (8000 = 80%)")
+  .addOptionalParam("feeBps", "Fee in basis points (defaults to 10000 minus --winner-bps)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-prize-split", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const winnerBps = parseBps(taskArgs.winnerBps, "winner-bps");
+      const feeBps = taskArgs.feeBps !== undefined ? parseBps(taskArgs.feeBps, "fee-bps") : BPS_DENOMINATOR - winnerBps;
+      if (winnerBps === 0n || winnerBps + feeBps !== BPS_DENOMINATOR) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid split ${winnerBps}/${feeBps}: the winners' share must be positive and both must add up to 10000`,
+        );
+      }
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "set-prize-split");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-prize-split");
+
+      out.log("Setting prize split to:", `${formatBps(winnerBps)} winners / ${formatBps(feeBps)} fee`);
+
+      const tx = await lottery.setPrizeSplit(winnerBps, feeBps);
+      const receipt = await tx.wait();
+
+      out.log("✅ Prize split updated");
+
+      out.result({
+        winnerBps: await lottery.winnerBps(),
+        feeBps: await lottery.feeBps(),
+        transactionHash: receipt?.hash,
+      });
+    }),
+  );
+
+lotteryTask("set-prize-tiers", "Set the PrivateLottery prize table, one distinct winner per tier")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addParam("tiers", "Comma-separated share of each tier in basis points of the winners' part, e.g. 6000,2500,1500")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-prize-tiers", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const tiers = String(taskArgs.tiers)
+        .split(",")
+        .map((tier) => parseBps(tier.trim(), "tiers"));
+      const total = tiers.reduce((sum, tier) => sum + tier, 0n);
+      if (tiers.length > MAX_PRIZE_TIERS || tiers.includes(0n) || total !== BPS_DENOMINATOR) {
+        throw new LotteryTaskError(
+          "INVALID_ARGUMENT",
+          `Invalid --tiers ${taskArgs.tiers}: expected up to ${MAX_PRIZE_TIERS} non-zero shares adding up to 10000`,
+        );
+      }
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "set-prize-tiers");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-prize-tiers");
+
+      out.log("Setting prize tiers to:", tiers.map(formatBps).join(" / "));
+
+      const tx = await lottery.setPrizeTiers(tiers);
+      const receipt = await tx.wait();
+
+      out.log("✅ Prize tiers updated");
+
+      out.result({ prizeTiers: [...(await lottery.getPrizeTiers())], transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-fee-recipient", "Set the address credited with the PrivateLottery fee")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addParam("recipient", "Address credited with the fee of each round")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-fee-recipient", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      if (!hre.ethers.isAddress(taskArgs.recipient) || taskArgs.recipient === hre.ethers.ZeroAddress) {
+        throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --recipient ${taskArgs.recipient}`);
+      }
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "set-fee-recipient");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-fee-recipient");
+
+      out.log("Setting fee recipient to:", taskArgs.recipient);
+
+      const tx = await lottery.setFeeRecipient(taskArgs.recipient);
+      const receipt = await tx.wait();
+
+      out.log("✅ Fee recipient updated");
+
+      out.result({ feeRecipient: await lottery.feeRecipient(), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("set-round-schedule", "Set the length of PrivateLottery rounds and the entries they need")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("duration", "Round length in seconds, 0 for no deadline; also reschedules the current round")
+  .addOptionalParam("minEntries", "Fewest entries a round needs before it can be drawn")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("set-round-schedule", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      if (taskArgs.duration === undefined && taskArgs.minEntries === undefined) {
+        throw new LotteryTaskError("INVALID_ARGUMENT", "Pass --duration, --min-entries or both");
+      }
+      const duration = parseOptionalCount(taskArgs.duration, "duration");
+      const minEntries = parseOptionalCount(taskArgs.minEntries, "min-entries");
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "set-round-schedule");
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "set-round-schedule");
+
+      const transactionHashes: string[] = [];
+      if (duration !== undefined) {
+        out.log("Setting round duration to:", duration === 0n ? "no deadline" : formatDuration(duration));
+        const receipt = await (await lottery.setRoundDuration(duration)).wait();
+        transactionHashes.push(receipt!.hash);
+      }
+      if (minEntries !== undefined) {
+        out.log("Setting minimum entries to:", minEntries.toString());
+        const receipt = await (await lottery.setMinEntries(minEntries)).wait();
+        transactionHashes.push(receipt!.hash);
+      }
+
+      const closesAt: bigint = await lottery.closesAt();
+      out.log("✅ Round schedule updated");
+      if (closesAt > 0n) out.log("Current round closes at:", timestamp(closesAt).iso);
+
+      out.result({
+        roundDuration: await lottery.roundDuration(),
+        minEntries: await lottery.minEntries(),
+        closesAt: closesAt > 0n ? timestamp(closesAt) : null,
+        transactionHashes,
+      });
+    }),
+  );
+
+lotteryTask("extend-round", "Reopen a closed PrivateLottery round that lacks the entries to be drawn")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("extend-round", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "extend-round");
+      const lottery = adapter.contract;
+
+      const round: bigint = await lottery.getCurrentRound();
+      const closesAt: bigint = await lottery.closesAt();
+      if (closesAt === 0n || (await chainTime(hre)) < closesAt) {
+        throw new LotteryTaskError("ROUND_OPEN", `Round ${round} has not closed`);
+      }
+
+      out.log(`Extending round ${round}...`);
+
+      const tx = await lottery.extendRound();
+      const receipt = await tx.wait();
+      const newClosesAt: bigint = await lottery.closesAt();
+
+      out.log("✅ Round extended until", timestamp(newClosesAt).iso);
+
+      out.result({ round, closesAt: timestamp(newClosesAt), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("cancel-round", "Cancel the current PrivateLottery round so its entrants can claim refunds")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addFlag("yes", "Skip the confirmation prompt (required with --json or without a terminal)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("cancel-round", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "cancel-round");
+      const lottery = adapter.contract;
+
+      const round: bigint = await lottery.getCurrentRound();
+      const entryCount: bigint = await lottery.getEntryCount();
+
+      // Anyone can cancel a timed round that closed short of its minimum, only the owner any other
+      const closesAt: bigint = await lottery.closesAt();
+      const underfilled =
+        closesAt > 0n && (await chainTime(hre)) >= closesAt && entryCount < (await lottery.minEntries());
+      if (!underfilled) {
+        await requireLotteryOwner(lottery, signer, "cancel-round");
+      }
+
+      // A pending draw can only be dropped once it timed out, when its result may already be known
+      if ((await lottery.drawPending()) && (await adapter.hasFunction("DRAW_REQUEST_TIMEOUT()"))) {
+        const cancellableAt: bigint = (await lottery.drawRequestedAt()) + (await lottery.DRAW_REQUEST_TIMEOUT());
+        const now = await chainTime(hre);
+        if (now < cancellableAt) {
+          throw new LotteryTaskError(
+            "DRAW_PENDING",
+            `Round ${round} has a pending draw; finish it with draw-winner, or cancel the round after ` +
+              `${timestamp(cancellableAt).iso} (${formatDuration(cancellableAt - now)} left)`,
+          );
+        }
+      }
+
+      const refundable: bigint = await lottery.totalPaidInRound(round);
+      const rolledOver = ((await lottery.getPrizePool()) as bigint) - refundable;
+
+      out.log(`\n🛑 Round ${round}:`);
+      out.log("─────────────────────────");
+      out.log("Entries:", entryCount.toString());
+      out.log("Refundable:", hre.ethers.formatEther(refundable), "ETH");
+      out.log("Rolls Over:", hre.ethers.formatEther(rolledOver), "ETH");
+      out.log("─────────────────────────\n");
+
+      if (!taskArgs.yes) {
+        if (out.json || !process.stdin.isTTY) {
+          throw new LotteryTaskError(
+            "CONFIRMATION_REQUIRED",
+            "cancel-round cannot ask for confirmation here; pass --yes to cancel",
+          );
+        }
+        if (!(await confirm(`⚠️  Cancel round ${round} and refund ${hre.ethers.formatEther(refundable)} ETH?`))) {
+          out.log("Aborted: the round was not cancelled");
+          return;
+        }
+      }
+
+      const tx = await lottery.cancelRound();
+      const receipt: ContractTransactionReceipt | null = await tx.wait();
+
+      let cancelled;
+      for (const log of receipt?.logs ?? []) {
+        const parsed = lottery.interface.parseLog(log);
+        if (parsed?.name === "RoundCancelled") cancelled = parsed;
+      }
+      if (!cancelled) {
+        throw new LotteryTaskError("MISSING_EVENT", `RoundCancelled event missing from transaction ${receipt?.hash}`);
+      }
+
+      out.log(`✅ Round ${round} cancelled; entrants can claim refunds with claim-refund --round ${round}`);
+
+      out.result({
+        round,
+        refundable: amount(cancelled.args.refundable),
+        rolledOver: amount(cancelled.args.rolledOverPool),
+        newRound: await lottery.getCurrentRound(),
+        transactionHash: receipt?.hash,
+      });
+    }),
+  );
+
+lotteryTask("claim-refund", "Withdraw what the signer paid to enter a cancelled round")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addParam("round", "Cancelled round to claim a refund for")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("claim-refund", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const round = parseRound(taskArgs.round);
+
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      adapter.requireKind("PrivateLottery", "claim-refund");
+      const lottery = adapter.contract;
+      const account = await signer.getAddress();
+
+      if (!(await lottery.roundCancelled(round))) {
+        throw new LotteryTaskError("INVALID_ARGUMENT", `Round ${round} was not cancelled`);
+      }
+      const paid: bigint = await lottery.paidInRound(round, account);
+      if (paid === 0n) {
+        throw new LotteryTaskError("NOTHING_TO_CLAIM", `Nothing to refund for ${account} in round ${round}`);
+      }
+
+      out.log("Claiming a refund of", hre.ethers.formatEther(paid), "ETH for", account, "...");
+
+      const tx = await lottery.claimRefund(round);
+      const receipt = await tx.wait();
+
+      out.log("✅ Refund claimed");
+      out.log("Transaction:", receipt?.hash);
+
+      out.result({ round, account, refunded: amount(paid), transactionHash: receipt?.hash });
+    }),
+  );
+
+lotteryTask("emergency-withdraw", "Withdraw the contract balance not owed to prize or refund claimants to the owner")
+  .addOptionalParam("address", "Lottery contract address (defaults to the PrivateLottery deployment of the network)")
+  .addFlag("dryRun", "Only show the contract balance, the accounted prize pool and the unclaimed prizes and refunds")
+  .addFlag("yes", "Skip the confirmation prompt (required with --json or without a terminal)")
+  .addOptionalParam("signer", SIGNER_PARAM_DESCRIPTION, "0")
+  .setAction(
+    withTaskOutput("emergency-withdraw", async (taskArgs, hre: HardhatRuntimeEnvironment, out: TaskOutput) => {
+      const signer = await resolveSigner(hre, taskArgs.signer);
+      const adapter = await loadLottery(hre, taskArgs.address, signer);
+      const lottery = adapter.contract;
+      await requireLotteryOwner(lottery, signer, "emergency-withdraw");
+      const provider = hre.ethers.provider;
+
+      // The contract sends its balance minus the prizes and refunds still waiting to be claimed
+      // (refunds are PrivateLottery only), which differs from prizePool when ETH was forced into it or the
+      // accounting is off
+      const balance = await provider.getBalance(adapter.address);
+      const prizePool: bigint = await lottery.getPrizePool();
+      const isPrivate = adapter.kind === "PrivateLottery";
+      const unclaimed: bigint = (await adapter.hasFunction("totalPendingWithdrawals()"))
+        ? await lottery.totalPendingWithdrawals()
+        : 0n;
+      const unclaimedRefunds: bigint = isPrivate ? await lottery.totalPendingRefunds() : 0n;
+      const withdrawable = balance - unclaimed - unclaimedRefunds;
+      const untracked = withdrawable - prizePool;
+
+      out.log("\n💰 Contract Funds:");
+      out.log("─────────────────────────");
+      out.log("Contract Balance:", hre.ethers.formatEther(balance), "ETH");
+      out.log("Unclaimed Prizes:", hre.ethers.formatEther(unclaimed), "ETH");
+      out.log("Unclaimed Refunds:", hre.ethers.formatEther(unclaimedRefunds), "ETH");
+      out.log("Prize Pool:", hre.ethers.formatEther(prizePool), "ETH");
+      out.log("Difference:", hre.ethers.formatEther(untracked), "ETH");
+      out.log("─────────────────────────\n");
+
+      const round: bigint = await lottery.getCurrentRound();
+      const paidThisRound: bigint = isPrivate ? await lottery.totalPaidInRound(round) : 0n;
+      if (paidThisRound > 0n) {
+        out.log(
+          `⚠️  Includes ${hre.ethers.formatEther(paidThisRound)} ETH paid to enter round ${round}, which then ` +
+            "ends without refunds; run cancel-round first to refund it",
+        );
+      }
 
-    const shouldActivate = taskArgs.active === "true";
-    console.log(shouldActivate ? "Activating lottery..." : "Deactivating lottery...");
+      const funds = {
+        balance: amount(balance),
+        unclaimed: amount(unclaimed),
+        unclaimedRefunds: amount(unclaimedRefunds),
+        prizePool: amount(prizePool),
+        untracked: amount(untracked),
+      };
+      if (taskArgs.dryRun) {
+        out.log("Dry run: nothing was withdrawn");
+        out.result({ dryRun: true, withdrawn: null, ...funds });
+        return;
+      }
 
-    const tx = await lottery.setLotteryActive(shouldActivate);
-    await tx.wait();
+      if (!taskArgs.yes) {
+        if (out.json || !process.stdin.isTTY) {
+          throw new LotteryTaskError(
+            "CONFIRMATION_REQUIRED",
+            "emergency-withdraw cannot ask for confirmation here; pass --yes to withdraw",
+          );
+        }
+        const confirmed = await confirm(
+          `⚠️  Withdraw ${hre.ethers.formatEther(withdrawable)} ETH from ${adapter.address} to the owner?`,
+        );
+        if (!confirmed) {
+          out.log("Aborted: nothing was withdrawn");
+          return;
+        }
+      }
 
-    const isActive = await lottery.isLotteryActive();
-    console.log("✅ Lottery status updated");
-    console.log("Is Active:", isActive ? "✅ Yes" : "❌ No");
-  });
+      out.log("⚠️  Performing emergency withdrawal...");
 
-task("emergency-withdraw", "Perform emergency withdrawal")
-  .addParam("address", "Lottery contract address")
-  .setAction(async (taskArgs, hre: HardhatRuntimeEnvironment) => {
-    const signer = await hre.ethers.getSigners();
-    const lottery = await hre.ethers.getContractAt("PrivateLottery", taskArgs.address, signer[0]);
+      const tx = await lottery.emergencyWithdraw();
+      const receipt: ContractTransactionReceipt | null = await tx.wait();
 
-    console.log("⚠️  Performing emergency withdrawal...");
+      if (!receipt) {
+        throw new LotteryTaskError("MISSING_EVENT", "Withdrawal transaction was not mined");
+      }
 
-    const balanceBefore = await hre.ethers.provider.getBalance(signer[0].address);
-    const tx = await lottery.emergencyWithdraw();
-    const receipt = await tx.wait();
-    const balanceAfter = await hre.ethers.provider.getBalance(signer[0].address);
+      // The contract balance around the withdrawal block; other transactions of the same block can
+      // move it too, so the withdrawn amount comes from EmergencyWithdrawal where the contract emits it
+      const balanceBefore = await provider.getBalance(adapter.address, receipt.blockNumber - 1);
+      const balanceAfter = await provider.getBalance(adapter.address, receipt.blockNumber);
+      const withdrawal = receipt.logs
+        .map((log) => lottery.interface.parseLog(log))
+        .find((event) => event?.name === "EmergencyWithdrawal");
+      const withdrawn: bigint = withdrawal ? withdrawal.args.amount : balanceBefore - balanceAfter;
+      const drainedPool: bigint | null = withdrawal ? withdrawal.args.drainedPool : null;
 
-    const gasUsed = (receipt?.gasUsed || 0n) * (receipt?.gasPrice || 0n);
-    const withdrawn = balanceAfter - balanceBefore + gasUsed;
+      out.log("✅ Emergency withdrawal completed");
+      out.log("Contract balance before:", hre.ethers.formatEther(balanceBefore), "ETH");
+      out.log("Contract balance after:", hre.ethers.formatEther(balanceAfter), "ETH");
+      out.log("Withdrawn:", hre.ethers.formatEther(withdrawn), "ETH");
+      if (drainedPool !== null && drainedPool > 0n) {
+        out.log(`Round ${withdrawal!.args.round} ended with its pool of ${hre.ethers.formatEther(drainedPool)} ETH`);
+      }
 
-    console.log("✅ Emergency withdrawal completed");
-    console.log("Withdrawn:", hre.ethers.formatEther(withdrawn), "ETH");
-  });
+      out.result({
+        dryRun: false,
+        ...funds,
+        balanceBefore: amount(balanceBefore),
+        balanceAfter: amount(balanceAfter),
+        withdrawn: amount(withdrawn),
+        drainedPool: drainedPool === null ? null : amount(drainedPool),
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      });
+    }),
+  );
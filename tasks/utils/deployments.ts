@@ -0,0 +1,90 @@
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { LotteryTaskError, toJson } from "./output";
+
+// Where deploy-lottery records what it deployed, one file per network
+export const LOTTERY_DEPLOYMENTS_DIR = "lottery-deployments";
+
+export interface LotteryDeployment {
+  contract: string;
+  address: string;
+  deployer: string;
+  transactionHash: string;
+  blockNumber: number;
+  chainId: string;
+  entryFee: string;
+  isActive: boolean;
+  deployedAt: string;
+}
+
+export function lotteryDeploymentPath(hre: HardhatRuntimeEnvironment): string {
+  return path.join(hre.config.paths.root, LOTTERY_DEPLOYMENTS_DIR, `${hre.network.name}.json`);
+}
+
+export function saveLotteryDeployment(hre: HardhatRuntimeEnvironment, deployment: LotteryDeployment): string {
+  const file = lotteryDeploymentPath(hre);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, toJson(deployment) + "\n");
+  return file;
+}
+
+export function readLotteryDeployment(hre: HardhatRuntimeEnvironment): LotteryDeployment | undefined {
+  const file = lotteryDeploymentPath(hre);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as LotteryDeployment;
+}
+
+// hardhat-deploy name used by deploy/deploy.ts (tag "PrivateLottery")
+export const LOTTERY_DEPLOYMENT_NAME = "PrivateLottery";
+
+// Randomness sources PrivateLottery can be deployed with, chosen with RANDOMNESS_SOURCE in
+// deploy/deploy.ts and --randomness in deploy-lottery. "none" draws from block data, which
+// whoever triggers a draw can grind
+export const RANDOMNESS_SOURCES = {
+  fhe: "FHERandomnessSource",
+  "commit-reveal": "CommitRevealRandomnessSource",
+  none: undefined,
+} as const;
+export type RandomnessSourceName = keyof typeof RANDOMNESS_SOURCES;
+export const DEFAULT_RANDOMNESS_SOURCE: RandomnessSourceName = "fhe";
+
+export function parseRandomnessSource(value: string): RandomnessSourceName {
+  if (!Object.keys(RANDOMNESS_SOURCES).includes(value)) {
+    throw new LotteryTaskError(
+      "INVALID_ARGUMENT",
+      `Invalid randomness source ${value}: expected one of ${Object.keys(RANDOMNESS_SOURCES).join(", ")}`,
+    );
+  }
+  return value as RandomnessSourceName;
+}
+
+// Uses --address when given. Otherwise takes the hardhat-deploy deployment of the active network,
+// then the address deploy-lottery recorded for it
+export async function resolveLotteryAddress(hre: HardhatRuntimeEnvironment, address?: string): Promise<string> {
+  if (address !== undefined) {
+    if (!hre.ethers.isAddress(address)) {
+      throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid lottery address ${address}`);
+    }
+    return address;
+  }
+
+  const deployed = await hre.deployments.getOrNull(LOTTERY_DEPLOYMENT_NAME);
+  if (deployed) {
+    return deployed.address;
+  }
+
+  const deployment = readLotteryDeployment(hre);
+  if (deployment === undefined) {
+    throw new LotteryTaskError(
+      "CONTRACT_NOT_FOUND",
+      `No --address given and no ${LOTTERY_DEPLOYMENT_NAME} deployment found for network ${hre.network.name} ` +
+        `(searched hardhat-deploy deployments and ` +
+        `${path.relative(hre.config.paths.root, lotteryDeploymentPath(hre))})`,
+    );
+  }
+  return deployment.address;
+}
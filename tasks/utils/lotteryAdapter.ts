@@ -0,0 +1,328 @@
+import { type Contract, type LogDescription, type Signer, ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { resolveLotteryAddress } from "./deployments";
+import { LotteryTaskError } from "./output";
+
+export type LotteryKind = "PrivateLottery" | "AnonymousLottery" | "FHEAnonymousLottery";
+
+// PrivateLottery.DrawMode, indexed by its on-chain value
+export const DRAW_MODES = ["RandomEntry", "EncryptedMatch"] as const;
+export type DrawMode = (typeof DRAW_MODES)[number];
+
+// Winner record normalized across the lottery contracts
+export interface LotteryWinner {
+  winner: string;
+  prize: bigint;
+  winningNumbers: number[];
+  timestamp: bigint;
+  round: bigint;
+  // Prize tier, 0 for the first prize
+  tier: bigint;
+}
+
+// LotteryEntered event normalized across the lottery contracts
+export interface LotteryEntered {
+  participant: string;
+  tickets: bigint;
+  round: bigint;
+}
+
+// WinnerDrawn event normalized across the lottery contracts
+export interface LotteryWinnerDrawn {
+  winner: string;
+  prize: bigint;
+  winningNumbers: number[];
+  round: bigint;
+  tier: bigint;
+}
+
+// NoWinningEntry event of the encrypted match draws, normalized
+export interface LotteryNoWinningEntry {
+  winningNumbers: number[];
+  round: bigint;
+}
+
+// PrivateLottery.getRound, normalized
+export interface LotteryRound {
+  round: bigint;
+  entryCount: bigint;
+  // The live pool of the current round, or the pool a past round was settled or cancelled with
+  pool: bigint;
+  startedAt: bigint;
+  // 0 while it is the current round
+  endedAt: bigint;
+  cancelled: boolean;
+  winners: LotteryWinner[];
+}
+
+// A participant's entries and win in one round
+export interface LotteryParticipantRound {
+  round: bigint;
+  entries: bigint;
+  hasWon: boolean;
+}
+
+// One ticket of a round, normalized across the lottery contracts
+export interface LotteryTicket {
+  // Position in the round, in entry order
+  index: bigint;
+  participant: string;
+  // Handle of the encrypted number of a PrivateLottery ticket, hash of the picks of an AnonymousLottery one,
+  // handle of the encrypted picks of an FHEAnonymousLottery one
+  ciphertext: string;
+  timestamp: bigint;
+}
+
+// The items from offset on and how many there are in all
+export interface LotteryPage<T> {
+  offset: bigint;
+  total: bigint;
+  items: T[];
+}
+
+// Items read per call of a paged view, well within the response limits of public RPC nodes
+export const PAGE_SIZE = 500n;
+
+export interface LotteryAdapter {
+  kind: LotteryKind;
+  address: string;
+  contract: Contract;
+  // Winners of every round, oldest first; every one from offset on without a limit
+  getWinners(offset?: bigint, limit?: bigint): Promise<LotteryPage<LotteryWinner>>;
+  // Tickets of a round, undefined for lotteries deployed before the paged entries view
+  getEntries(round: bigint, offset?: bigint, limit?: bigint): Promise<LotteryPage<LotteryTicket> | undefined>;
+  getParticipantEntries(participant: string): Promise<bigint>;
+  // Per-round records, undefined for lotteries that only keep totals over every round
+  getRound(round: bigint): Promise<LotteryRound | undefined>;
+  getParticipantRound(participant: string, round: bigint): Promise<LotteryParticipantRound | undefined>;
+  // Address of the randomness source of the draws, the zero address without one
+  getRandomnessSource(): Promise<string>;
+  // Whether the contract has a function, which older deployments may lack
+  hasFunction(signature: string): Promise<boolean>;
+  decodeLotteryEntered(event: LogDescription): LotteryEntered;
+  decodeWinnerDrawn(event: LogDescription): LotteryWinnerDrawn;
+  decodeNoWinningEntry(event: LogDescription): LotteryNoWinningEntry;
+  requireKind(kind: LotteryKind, taskName: string): void;
+}
+
+// Each contract is recognized by the selector of its enterLottery overload: PrivateLottery takes
+// an encrypted handle and proof, AnonymousLottery three plaintext picks and FHEAnonymousLottery
+// three encrypted picks sharing one proof
+const ENTER_SIGNATURES: Record<LotteryKind, string> = {
+  PrivateLottery: "enterLottery(bytes32,bytes)",
+  AnonymousLottery: "enterLottery(bool,bool,bool)",
+  FHEAnonymousLottery: "enterLottery(bytes32,bytes32,bytes32,bytes)",
+};
+
+// Whether deployed code dispatches on the selector of a function signature. The Solidity dispatcher
+// pushes each selector with PUSH4 (0x63) and compares it with EQ (0x14); a contract that only calls
+// the function, such as a lottery entrant, pushes it to shift it into calldata instead, and the same
+// four bytes inside constants or metadata follow no PUSH4 at all
+export function hasSelector(hre: HardhatRuntimeEnvironment, code: string, signature: string): boolean {
+  return code.includes("63" + hre.ethers.id(signature).slice(2, 10) + "14");
+}
+
+// Tells the lottery contracts apart by the code deployed at address, as read by the caller
+export function detectLotteryKind(hre: HardhatRuntimeEnvironment, address: string, code: string): LotteryKind {
+  if (code === "0x") {
+    throw new LotteryTaskError(
+      "CONTRACT_NOT_FOUND",
+      `No contract deployed at ${address} on network ${hre.network.name}`,
+    );
+  }
+
+  for (const [kind, signature] of Object.entries(ENTER_SIGNATURES) as [LotteryKind, string][]) {
+    if (hasSelector(hre, code, signature)) {
+      return kind;
+    }
+  }
+
+  throw new LotteryTaskError(
+    "UNSUPPORTED_CONTRACT",
+    `Contract at ${address} is not a PrivateLottery, AnonymousLottery or FHEAnonymousLottery: ` +
+      `it has none of ${Object.values(ENTER_SIGNATURES).join(", ")}`,
+  );
+}
+
+// Reads limit items from offset through a paged view, PAGE_SIZE at a time, stopping at the last one
+async function readPages<T>(
+  read: (offset: bigint, limit: bigint) => Promise<[T[], bigint]>,
+  offset: bigint,
+  limit?: bigint,
+): Promise<LotteryPage<T>> {
+  const items: T[] = [];
+  for (;;) {
+    const start = offset + BigInt(items.length);
+    const remaining = limit === undefined ? PAGE_SIZE : limit - BigInt(items.length);
+    const size = remaining < PAGE_SIZE ? remaining : PAGE_SIZE;
+    const [page, total] = await read(start, size);
+    items.push(...page);
+    if (BigInt(page.length) < size || start + BigInt(page.length) >= total || BigInt(items.length) === limit) {
+      return { offset, total, items };
+    }
+  }
+}
+
+// The same page cut from items that are all in memory
+export function slicePage<T>(items: T[], offset: bigint, limit?: bigint): LotteryPage<T> {
+  const end = limit === undefined ? undefined : Number(offset + limit);
+  return { offset, total: BigInt(items.length), items: items.slice(Number(offset), end) };
+}
+
+// Resolves the address (see resolveLotteryAddress) and binds the contract matching its code
+export async function loadLottery(
+  hre: HardhatRuntimeEnvironment,
+  addressArg: string | undefined,
+  signer?: Signer,
+): Promise<LotteryAdapter> {
+  const address = await resolveLotteryAddress(hre, addressArg);
+  // Read once: the kind and every hasFunction check come from the same code
+  const code = await hre.ethers.provider.getCode(address);
+  const kind = detectLotteryKind(hre, address, code);
+  const contract = await hre.ethers.getContractAt(kind, address, signer);
+
+  const winningNumbers = (source: any): number[] =>
+    kind === "PrivateLottery"
+      ? [Number(source.winningNumber)]
+      : [Number(source.num1), Number(source.num2), Number(source.num3)];
+
+  // Normalizes a Winner struct, given its position among the winners of every round
+  const toWinner = (winner: any, index: bigint): LotteryWinner => ({
+    winner: winner.winner,
+    prize: winner.prize,
+    winningNumbers: winningNumbers(winner),
+    timestamp: winner.timestamp,
+    // PrivateLottery and FHEAnonymousLottery can have no winner in a round; AnonymousLottery always has one
+    round: kind === "AnonymousLottery" ? index + 1n : winner.round,
+    tier: kind === "PrivateLottery" ? winner.tier : 0n,
+  });
+
+  // Deployments from before round records and paged views lack the newer functions
+  const hasFunction = async (signature: string) => hasSelector(hre, code, signature);
+
+  return {
+    kind,
+    address,
+    contract,
+
+    async getWinners(offset = 0n, limit?: bigint) {
+      if (!(await hasFunction("getWinners(uint256,uint256)"))) {
+        // Lotteries deployed before getWinners can only return every winner at once
+        const winners: any[] = [...(await contract.getAllWinners())];
+        return slicePage(
+          winners.map((winner, index) => toWinner(winner, BigInt(index))),
+          offset,
+          limit,
+        );
+      }
+      const read = async (start: bigint, size: bigint): Promise<[any[], bigint]> => {
+        const [winners, total] = await contract.getWinners(start, size);
+        return [[...winners], total];
+      };
+      const page = await readPages(read, offset, limit);
+      return { ...page, items: page.items.map((winner, i) => toWinner(winner, offset + BigInt(i))) };
+    },
+
+    async getEntries(round: bigint, offset = 0n, limit?: bigint) {
+      if (!(await hasFunction("getEntries(uint256,uint256,uint256)"))) {
+        return undefined;
+      }
+      const read = async (start: bigint, size: bigint): Promise<[any[], bigint]> => {
+        const [entries, total] = await contract.getEntries(round, start, size);
+        return [[...entries], total];
+      };
+      const page = await readPages(read, offset, limit);
+      return {
+        ...page,
+        items: page.items.map((entry, i) => ({
+          index: offset + BigInt(i),
+          participant: entry.participant,
+          ciphertext:
+            kind === "PrivateLottery"
+              ? entry.encryptedNumber
+              : kind === "AnonymousLottery"
+                ? entry.encryptedNumbers
+                : entry.encryptedPicks,
+          timestamp: entry.timestamp,
+        })),
+      };
+    },
+
+    async getParticipantEntries(participant: string) {
+      return kind === "PrivateLottery"
+        ? contract.getParticipantEntries(participant)
+        : contract.getParticipantHistory(participant);
+    },
+
+    async getRound(round: bigint) {
+      if (!(await hasFunction("getRound(uint256)"))) {
+        return undefined;
+      }
+      const info = await contract.getRound(round);
+      return {
+        round: info.round,
+        entryCount: info.entryCount,
+        pool: info.pool,
+        startedAt: info.startedAt,
+        endedAt: info.endedAt,
+        cancelled: info.cancelled,
+        winners: info.winners.map((winner: any) => toWinner(winner, 0n)),
+      };
+    },
+
+    async getParticipantRound(participant: string, round: bigint) {
+      if (!(await hasFunction("getParticipantEntriesInRound(address,uint256)"))) {
+        return undefined;
+      }
+      return {
+        round,
+        entries: await contract.getParticipantEntriesInRound(participant, round),
+        hasWon: await contract.hasParticipantWonInRound(participant, round),
+      };
+    },
+
+    hasFunction,
+
+    async getRandomnessSource() {
+      // Lotteries deployed before randomness sources existed always draw from block data
+      return (await hasFunction("randomnessSource()")) ? contract.randomnessSource() : ZeroAddress;
+    },
+
+    decodeLotteryEntered(event: LogDescription) {
+      return {
+        participant: event.args.participant,
+        // The anonymous lotteries emit one event per purchase of up to 10 tickets
+        tickets: kind === "PrivateLottery" ? 1n : event.args.ticketCount,
+        round: event.args.round,
+      };
+    },
+
+    decodeWinnerDrawn(event: LogDescription) {
+      return {
+        winner: event.args.winner,
+        prize: event.args.prize,
+        winningNumbers: winningNumbers(event.args),
+        round: event.args.round,
+        tier: kind === "PrivateLottery" ? event.args.tier : 0n,
+      };
+    },
+
+    decodeNoWinningEntry(event: LogDescription) {
+      return { winningNumbers: winningNumbers(event.args), round: event.args.round };
+    },
+
+    requireKind(expected: LotteryKind, taskName: string) {
+      if (kind !== expected) {
+        throw new LotteryTaskError(
+          "UNSUPPORTED_CONTRACT",
+          `${taskName} requires a ${expected} contract, but ${address} is ${kind}`,
+        );
+      }
+    },
+  };
+}
+
+export function formatWinningNumbers(numbers: number[]): string {
+  return numbers.join("-");
+}
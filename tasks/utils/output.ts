@@ -0,0 +1,133 @@
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const JSON_FLAG_DESCRIPTION = "Print a single JSON document instead of text";
+
+// Stable error codes reported in --json mode; monitoring scripts match on these
+export type LotteryErrorCode =
+  | "INVALID_ARGUMENT"
+  | "NOT_OWNER"
+  | "CONTRACT_NOT_FOUND"
+  | "UNSUPPORTED_CONTRACT"
+  | "LOTTERY_INACTIVE"
+  | "ROUND_CLOSED"
+  | "ROUND_OPEN"
+  | "INSUFFICIENT_FEE"
+  | "TICKET_LIMIT_REACHED"
+  | "NO_ENTRIES"
+  | "RANDOMNESS_PENDING"
+  | "DRAW_PENDING"
+  | "NOTHING_TO_CLAIM"
+  | "NOTHING_TO_REVEAL"
+  | "MISSING_EVENT"
+  | "CONFIRMATION_REQUIRED"
+  | "TRANSACTION_REVERTED"
+  | "UNEXPECTED_ERROR";
+
+export class LotteryTaskError extends Error {
+  constructor(
+    public readonly code: LotteryErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "LotteryTaskError";
+  }
+}
+
+// A count parameter such as --offset or --duration, named as on the command line
+export function parseCount(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --${name} ${value}: expected a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+// An optional count parameter, undefined when it was not passed
+export function parseOptionalCount(value: string | undefined, name: string): bigint | undefined {
+  return value !== undefined ? parseCount(value, name) : undefined;
+}
+
+export interface TaskOutput {
+  json: boolean;
+  // Human-readable line, suppressed in --json mode
+  log(...args: unknown[]): void;
+  // Structured result, printed only in --json mode
+  result(data: Record<string, unknown>): void;
+  // One compact JSON document per line for streaming tasks, printed only in --json mode
+  line(data: Record<string, unknown>): void;
+}
+
+export interface TaskOutputOptions {
+  // Streaming tasks emit JSON lines as they go instead of one result document at the end
+  stream?: boolean;
+}
+
+export type LotteryTaskAction = (taskArgs: any, hre: HardhatRuntimeEnvironment, out: TaskOutput) => Promise<void>;
+
+export function amount(wei: bigint) {
+  return { wei: wei.toString(), ether: ethers.formatEther(wei) };
+}
+
+export function timestamp(seconds: bigint) {
+  return { unix: seconds.toString(), iso: new Date(Number(seconds) * 1000).toISOString() };
+}
+
+export function toJson(value: unknown, indent: number = 2): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v), indent);
+}
+
+function toTaskError(error: unknown): LotteryTaskError {
+  if (error instanceof LotteryTaskError) {
+    return error;
+  }
+  const e = error as { code?: string; reason?: string; shortMessage?: string; message?: string };
+  if (e?.code === "CALL_EXCEPTION") {
+    return new LotteryTaskError("TRANSACTION_REVERTED", e.reason ?? e.shortMessage ?? "Transaction reverted");
+  }
+  return new LotteryTaskError("UNEXPECTED_ERROR", e?.message ?? String(error));
+}
+
+// Declares a lottery task with the --json flag that withTaskOutput reads. Hardhat 2 parses its
+// global flags before loading the config and takes no custom ones, so every lottery task gets the
+// flag here instead of declaring it itself
+export function lotteryTask(name: string, description: string, jsonDescription: string = JSON_FLAG_DESCRIPTION) {
+  return task(name, description).addFlag("json", jsonDescription);
+}
+
+// Wraps a task action so that --json prints exactly one document on stdout: the result on
+// success, or { ok: false, error: { code, message } } on failure (with a non-zero exit code).
+// Streaming tasks print their own lines and only get the error document, on a single line
+export function withTaskOutput(taskName: string, action: LotteryTaskAction, options: TaskOutputOptions = {}) {
+  return async (taskArgs: any, hre: HardhatRuntimeEnvironment) => {
+    const json = Boolean(taskArgs.json);
+    let data: Record<string, unknown> = {};
+    const out: TaskOutput = {
+      json,
+      log: (...args: unknown[]) => {
+        if (!json) console.log(...args);
+      },
+      result: (result: Record<string, unknown>) => {
+        data = { ...data, ...result };
+      },
+      line: (line: Record<string, unknown>) => {
+        if (json) console.log(toJson(line, 0));
+      },
+    };
+
+    try {
+      await action(taskArgs, hre, out);
+    } catch (error) {
+      if (!json) throw error;
+      const { code, message } = toTaskError(error);
+      const document = { task: taskName, network: hre.network.name, ok: false, error: { code, message } };
+      console.log(toJson(document, options.stream ? 0 : 2));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (json && !options.stream) {
+      console.log(toJson({ task: taskName, network: hre.network.name, ok: true, result: data }));
+    }
+  };
+}
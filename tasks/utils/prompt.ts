@@ -0,0 +1,12 @@
+import readline from "readline/promises";
+
+// Asks a yes/no question on the terminal; anything but "y" or "yes" counts as no
+export async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,54 @@
+import type { Contract, Signer } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { LotteryTaskError } from "./output";
+
+export const SIGNER_PARAM_DESCRIPTION =
+  "Account index, hardhat-deploy named account (e.g. deployer) or name of an env var holding a private key";
+
+// Resolves --signer: a plain number is an index into the configured accounts, a named account
+// wins over an env var of the same name, and an env var must hold a private key
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, spec: string): Promise<Signer> {
+  if (/^\d+$/.test(spec)) {
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[Number(spec)];
+    if (signer === undefined) {
+      throw new LotteryTaskError(
+        "INVALID_ARGUMENT",
+        `Invalid --signer ${spec}: network ${hre.network.name} has ${signers.length} accounts`,
+      );
+    }
+    return signer;
+  }
+
+  const namedAccounts = await hre.getNamedAccounts();
+  if (namedAccounts[spec] !== undefined) {
+    return hre.ethers.getSigner(namedAccounts[spec]);
+  }
+
+  const privateKey = process.env[spec];
+  if (privateKey !== undefined) {
+    try {
+      return new hre.ethers.Wallet(privateKey.trim(), hre.ethers.provider);
+    } catch {
+      // Never echo the variable's value, it is meant to be a secret
+      throw new LotteryTaskError("INVALID_ARGUMENT", `Invalid --signer ${spec}: the env var is not a private key`);
+    }
+  }
+
+  throw new LotteryTaskError(
+    "INVALID_ARGUMENT",
+    `Invalid --signer ${spec}: not an account index, a named account or a set env var`,
+  );
+}
+
+// Fails before anything is sent when the signer cannot pass the contract's onlyOwner check
+export async function requireLotteryOwner(lottery: Contract, signer: Signer, taskName: string): Promise<void> {
+  const [owner, address] = await Promise.all([lottery.owner(), signer.getAddress()]);
+  if (owner.toLowerCase() !== address.toLowerCase()) {
+    throw new LotteryTaskError(
+      "NOT_OWNER",
+      `${taskName} must be sent by the lottery owner ${owner}, but the signer is ${address}`,
+    );
+  }
+}
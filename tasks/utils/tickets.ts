@@ -0,0 +1,44 @@
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { toJson } from "./output";
+
+// Where commit-ticket keeps the picks and salts of AnonymousLottery commitments until
+// reveal-ticket reveals them, one file per network. Whoever reads a salt can reveal its picks
+// early, so the directory is ignored by git and should not be shared
+export const LOTTERY_TICKETS_DIR = "lottery-tickets";
+
+export type TicketPicks = [boolean, boolean, boolean];
+
+export interface CommittedTicketRecord {
+  lottery: string;
+  round: string;
+  participant: string;
+  picks: TicketPicks;
+  salt: string;
+  commitment: string;
+  ticketCount: string;
+  commitTransaction?: string;
+  revealTransaction?: string;
+  committedAt: string;
+}
+
+export function lotteryTicketsPath(hre: HardhatRuntimeEnvironment): string {
+  return path.join(hre.config.paths.root, LOTTERY_TICKETS_DIR, `${hre.network.name}.json`);
+}
+
+export function readCommittedTickets(hre: HardhatRuntimeEnvironment): CommittedTicketRecord[] {
+  const file = lotteryTicketsPath(hre);
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as CommittedTicketRecord[];
+}
+
+export function saveCommittedTickets(hre: HardhatRuntimeEnvironment, tickets: CommittedTicketRecord[]): string {
+  const file = lotteryTicketsPath(hre);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, toJson(tickets) + "\n");
+  return file;
+}
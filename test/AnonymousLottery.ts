@@ -0,0 +1,386 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import {
+  AnonymousLottery,
+  AnonymousLottery__factory,
+  MockVRFCoordinator,
+  MockVRFCoordinator__factory,
+  RevertingReceiver__factory,
+} from "../types";
+import { shouldBehaveLikeAnonymousLottery } from "./shared/AnonymousLotteryBehavior";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+type Picks = [boolean, boolean, boolean];
+
+const REVEAL_DURATION = 3600;
+
+async function deployFixture() {
+  const lotteryContract = await new AnonymousLottery__factory((await ethers.getSigners())[0]).deploy(
+    ethers.ZeroAddress,
+  );
+  const lotteryContractAddress = await lotteryContract.getAddress();
+
+  return { lotteryContract, lotteryContractAddress };
+}
+
+describe("AnonymousLottery", function () {
+  let signers: Signers;
+  let lotteryContract: AnonymousLottery;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], charlie: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    ({ lotteryContract } = await deployFixture());
+  });
+
+  shouldBehaveLikeAnonymousLottery<AnonymousLottery>({
+    deploy: (deployer) => new AnonymousLottery__factory(deployer).deploy(ethers.ZeroAddress),
+    enter: (lottery, signer, picks, value) => lottery.connect(signer).enterLottery(...picks, { value }),
+    draw: (lottery, signer) => lottery.connect(signer).drawWinner(),
+  });
+
+  describe("Prize Claims", function () {
+    it("✅ should credit the prize and the owner fee for claimPrize", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await lotteryContract.connect(signers.alice).enterLottery(true, false, true, { value: entryFee * 5n });
+      const prizePool = await lotteryContract.getPrizePool();
+      const prize = (prizePool * 80n) / 100n;
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.changeEtherBalance(lotteryContract, 0n);
+      expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal(prize);
+      expect(await lotteryContract.pendingWithdrawals(signers.deployer.address)).to.equal(prizePool - prize);
+      expect(await lotteryContract.totalPendingWithdrawals()).to.equal(prizePool);
+
+      const claim = lotteryContract.connect(signers.alice).claimPrize();
+      await expect(claim).to.emit(lotteryContract, "PrizeClaimed").withArgs(signers.alice.address, prize);
+      await expect(claim).to.changeEtherBalance(signers.alice, prize);
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.changeEtherBalance(
+        signers.deployer,
+        prizePool - prize,
+      );
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.be.revertedWith("Nothing to claim");
+    });
+
+    it("✅ should draw a winner that refuses ETH", async function () {
+      const receiver = await new RevertingReceiver__factory(signers.deployer).deploy();
+      const receiverAddress = await receiver.getAddress();
+      const entryFee = await lotteryContract.getEntryFee();
+      const enter = lotteryContract.interface.encodeFunctionData("enterLottery", [true, true, true]);
+      await receiver.execute(await lotteryContract.getAddress(), enter, { value: entryFee });
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.emit(lotteryContract, "WinnerDrawn");
+      expect(await lotteryContract.getLastWinner()).to.equal(receiverAddress);
+
+      const claim = lotteryContract.interface.encodeFunctionData("claimPrize");
+      await expect(receiver.execute(await lotteryContract.getAddress(), claim)).to.be.revertedWith(
+        "Prize transfer failed",
+      );
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.not.be.reverted;
+    });
+
+    it("✅ should keep unclaimed prizes out of emergency withdrawals and end a drained round", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await lotteryContract.connect(signers.alice).enterLottery(true, true, true, { value: entryFee });
+      await lotteryContract.connect(signers.deployer).drawWinner();
+      await lotteryContract.connect(signers.bob).enterLottery(true, true, true, { value: entryFee });
+      const reserved = await lotteryContract.totalPendingWithdrawals();
+
+      await expect(lotteryContract.connect(signers.deployer).emergencyWithdraw())
+        .to.emit(lotteryContract, "EmergencyWithdrawal")
+        .withArgs(signers.deployer.address, entryFee, 2n, entryFee)
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(3n);
+
+      expect(await ethers.provider.getBalance(await lotteryContract.getAddress())).to.equal(reserved);
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.not.be.reverted;
+    });
+  });
+
+  describe("Randomness Source", function () {
+    let coordinator: MockVRFCoordinator;
+
+    beforeEach(async function () {
+      coordinator = await new MockVRFCoordinator__factory(signers.deployer).deploy();
+      lotteryContract = await new AnonymousLottery__factory(signers.deployer).deploy(await coordinator.getAddress());
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        await lotteryContract.connect(signer).enterLottery(true, false, true, { value: entryFee });
+      }
+    });
+
+    it("✅ should request a word and close entries until it arrives", async function () {
+      await expect(lotteryContract.connect(signers.deployer).requestDraw())
+        .to.emit(lotteryContract, "DrawRequested")
+        .withArgs(1n, 1n)
+        .and.to.emit(coordinator, "RandomnessRequested")
+        .withArgs(1n, await lotteryContract.getAddress());
+
+      expect(await lotteryContract.randomnessRequestId()).to.equal(1n);
+      const entryFee = await lotteryContract.getEntryFee();
+      await expect(
+        lotteryContract.connect(signers.alice).enterLottery(true, true, true, { value: entryFee }),
+      ).to.be.revertedWith("Draw in progress");
+      await expect(lotteryContract.connect(signers.deployer).requestDraw()).to.be.revertedWith("Draw in progress");
+    });
+
+    it("✅ should pick the winner from the delivered word", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      // Word 4 picks entry 4 % 3 = 1
+      await expect(coordinator.fulfillRandomWords(1n, 4n))
+        .to.emit(lotteryContract, "WinnerDrawn")
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+
+      expect(await lotteryContract.getLastWinner()).to.equal(signers.bob.address);
+      expect(await lotteryContract.randomnessRequestId()).to.equal(0n);
+    });
+
+    it("✅ should let anyone cancel a request the source did not answer in time", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      await expect(lotteryContract.connect(signers.alice).cancelDrawRequest()).to.be.revertedWith(
+        "Draw request not timed out",
+      );
+
+      await time.increase(await lotteryContract.DRAW_REQUEST_TIMEOUT());
+      await expect(lotteryContract.connect(signers.alice).cancelDrawRequest())
+        .to.emit(lotteryContract, "DrawRequestCancelled")
+        .withArgs(1n, 1n);
+      expect(await lotteryContract.randomnessRequestId()).to.equal(0n);
+
+      // The round can be drawn with a new request
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      await expect(coordinator.fulfillRandomWords(2n, 0n)).to.emit(lotteryContract, "WinnerDrawn");
+      expect(await lotteryContract.getLastWinner()).to.equal(signers.alice.address);
+    });
+
+    it("❌ should reject the word of a cancelled request", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      await time.increase(await lotteryContract.DRAW_REQUEST_TIMEOUT());
+      await lotteryContract.cancelDrawRequest();
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(coordinator.fulfillRandomWords(1n, 42n)).to.be.revertedWith("Unknown randomness request");
+      await expect(lotteryContract.connect(signers.deployer).cancelDrawRequest()).to.be.revertedWith(
+        "Draw request not timed out",
+      );
+    });
+
+    it("❌ should only accept words from the randomness source", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(lotteryContract.connect(signers.deployer).fulfillRandomness(1n, 42n)).to.be.revertedWith(
+        "Only randomness source",
+      );
+    });
+
+    it("❌ should reject drawWinner and cancelling without a request", async function () {
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith(
+        "Use requestDraw with a randomness source",
+      );
+      await expect(lotteryContract.cancelDrawRequest()).to.be.revertedWith("No draw in progress");
+    });
+  });
+
+  describe("Commit-Reveal", function () {
+    const salts = { alice: ethers.id("alice salt"), bob: ethers.id("bob salt"), charlie: ethers.id("charlie salt") };
+    const picks: Record<keyof typeof salts, Picks> = {
+      alice: [true, false, true],
+      bob: [false, false, true],
+      charlie: [true, true, true],
+    };
+
+    beforeEach(async function () {
+      await lotteryContract.connect(signers.deployer).setRevealDuration(REVEAL_DURATION);
+    });
+
+    async function commitAs(name: keyof typeof salts, tickets: bigint = 1n) {
+      const signer = signers[name];
+      const commitment = await lotteryContract.ticketCommitment(...picks[name], salts[name], signer.address);
+      const value = (await lotteryContract.getEntryFee()) * tickets;
+      await lotteryContract.connect(signer).commitTicket(commitment, { value });
+      return commitment;
+    }
+
+    async function revealAs(name: keyof typeof salts) {
+      return lotteryContract.connect(signers[name]).revealTicket(...picks[name], salts[name]);
+    }
+
+    it("✅ should take payment for a commitment without entering any ticket", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const commitment = await lotteryContract.ticketCommitment(...picks.alice, salts.alice, signers.alice.address);
+
+      await expect(lotteryContract.connect(signers.alice).commitTicket(commitment, { value: entryFee * 2n }))
+        .to.emit(lotteryContract, "TicketCommitted")
+        .withArgs(signers.alice.address, commitment, 2n, 1n);
+
+      const ticket = await lotteryContract.committedTickets(1n, signers.alice.address, commitment);
+      expect(ticket.participant).to.equal(signers.alice.address);
+      expect(ticket.ticketCount).to.equal(2n);
+      expect(ticket.revealed).to.be.false;
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+      expect(await lotteryContract.getPrizePool()).to.equal(entryFee * 2n);
+    });
+
+    it("✅ should enter the tickets of a commitment revealed in the window", async function () {
+      const commitment = await commitAs("alice", 3n);
+      await expect(lotteryContract.connect(signers.deployer).startReveal()).to.emit(lotteryContract, "RevealStarted");
+
+      await expect(revealAs("alice"))
+        .to.emit(lotteryContract, "TicketRevealed")
+        .withArgs(signers.alice.address, commitment, 3n, 1n)
+        .and.to.emit(lotteryContract, "LotteryEntered")
+        .withArgs(signers.alice.address, 3n, 3n, 1n);
+
+      expect(await lotteryContract.getEntryCount()).to.equal(3n);
+      expect((await lotteryContract.committedTickets(1n, signers.alice.address, commitment)).revealed).to.be.true;
+    });
+
+    it("✅ should forfeit tickets that are never revealed", async function () {
+      await commitAs("alice");
+      await commitAs("bob");
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await revealAs("alice");
+      await time.increase(REVEAL_DURATION);
+
+      const prizePool = await lotteryContract.getPrizePool();
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      const [winner] = await lotteryContract.getAllWinners();
+      expect(winner.winner).to.equal(signers.alice.address);
+      expect(winner.prize).to.equal((prizePool * 80n) / 100n);
+      expect(await lotteryContract.getParticipants()).to.deep.equal([]);
+    });
+
+    it("✅ should roll the pool over when no ticket was revealed", async function () {
+      await commitAs("alice");
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await time.increase(REVEAL_DURATION);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith("No entries in lottery");
+      await expect(lotteryContract.connect(signers.deployer).rollOverRound())
+        .to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+
+      expect(await lotteryContract.getPrizePool()).to.equal(prizePool);
+      expect(await lotteryContract.revealDeadline()).to.equal(0n);
+    });
+
+    it("❌ should reject a late reveal", async function () {
+      await commitAs("alice");
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await time.increase(REVEAL_DURATION);
+
+      await expect(revealAs("alice")).to.be.revertedWith("Reveal window closed");
+    });
+
+    it("❌ should reject a reveal before the reveal window", async function () {
+      await commitAs("alice");
+
+      await expect(revealAs("alice")).to.be.revertedWith("Reveal not started");
+    });
+
+    it("❌ should reject wrong picks, a wrong salt and someone else's reveal", async function () {
+      await commitAs("alice");
+      await lotteryContract.connect(signers.deployer).startReveal();
+
+      await expect(
+        lotteryContract.connect(signers.alice).revealTicket(false, false, true, salts.alice),
+      ).to.be.revertedWith("Invalid reveal");
+      await expect(lotteryContract.connect(signers.alice).revealTicket(...picks.alice, salts.bob)).to.be.revertedWith(
+        "Invalid reveal",
+      );
+      await expect(lotteryContract.connect(signers.bob).revealTicket(...picks.alice, salts.alice)).to.be.revertedWith(
+        "Invalid reveal",
+      );
+    });
+
+    it("❌ should reject revealing a ticket twice", async function () {
+      await commitAs("alice");
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await revealAs("alice");
+
+      await expect(revealAs("alice")).to.be.revertedWith("Ticket already revealed");
+    });
+
+    it("❌ should not draw while tickets can still be revealed", async function () {
+      await commitAs("alice");
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith(
+        "Reveal window not closed",
+      );
+
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await revealAs("alice");
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith(
+        "Reveal window not closed",
+      );
+    });
+
+    it("❌ should reject commitments after the commit phase and plaintext entries", async function () {
+      await commitAs("alice");
+      await lotteryContract.connect(signers.deployer).startReveal();
+      const entryFee = await lotteryContract.getEntryFee();
+
+      await expect(commitAs("bob")).to.be.revertedWith("Commit phase over");
+      await expect(
+        lotteryContract.connect(signers.charlie).enterLottery(true, true, true, { value: entryFee }),
+      ).to.be.revertedWith("Use commitTicket in commit-reveal mode");
+    });
+
+    it("❌ should reject a reused commitment", async function () {
+      const commitment = await commitAs("alice");
+      const entryFee = await lotteryContract.getEntryFee();
+
+      await expect(
+        lotteryContract.connect(signers.alice).commitTicket(commitment, { value: entryFee }),
+      ).to.be.revertedWith("Commitment already used");
+    });
+
+    it("✅ should not let a copied commitment front-run the one it copies", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const commitment = await lotteryContract.ticketCommitment(...picks.alice, salts.alice, signers.alice.address);
+
+      // Bob copies Alice's pending commitment and gets it mined first
+      await lotteryContract.connect(signers.bob).commitTicket(commitment, { value: entryFee });
+      await expect(lotteryContract.connect(signers.alice).commitTicket(commitment, { value: entryFee }))
+        .to.emit(lotteryContract, "TicketCommitted")
+        .withArgs(signers.alice.address, commitment, 1n, 1n);
+
+      await lotteryContract.connect(signers.deployer).startReveal();
+      await expect(lotteryContract.connect(signers.bob).revealTicket(...picks.alice, salts.alice)).to.be.revertedWith(
+        "Invalid reveal",
+      );
+      await expect(revealAs("alice")).to.emit(lotteryContract, "TicketRevealed");
+      expect(await lotteryContract.getParticipants()).to.deep.equal([signers.alice.address]);
+    });
+
+    it("✅ should announce a new reveal duration", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setRevealDuration(2 * REVEAL_DURATION))
+        .to.emit(lotteryContract, "RevealDurationChanged")
+        .withArgs(2 * REVEAL_DURATION);
+
+      expect(await lotteryContract.revealDuration()).to.equal(2 * REVEAL_DURATION);
+    });
+
+    it("❌ should not switch modes while the round has tickets", async function () {
+      await commitAs("alice");
+
+      await expect(lotteryContract.connect(signers.deployer).setRevealDuration(0)).to.be.revertedWith(
+        "Round already has tickets",
+      );
+    });
+  });
+});
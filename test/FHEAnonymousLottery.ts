@@ -0,0 +1,277 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FHEAnonymousLottery, FHEAnonymousLottery__factory, RevertingReceiver__factory } from "../types";
+import { ALL_PICKS, Picks, shouldBehaveLikeAnonymousLottery } from "./shared/AnonymousLotteryBehavior";
+import { expect } from "chai";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  charlie: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const lotteryContract = await new FHEAnonymousLottery__factory((await ethers.getSigners())[0]).deploy();
+  const lotteryContractAddress = await lotteryContract.getAddress();
+
+  return { lotteryContract, lotteryContractAddress };
+}
+
+async function enter(lottery: FHEAnonymousLottery, signer: HardhatEthersSigner, picks: Picks, value: bigint) {
+  const { handles, inputProof } = await fhevm
+    .createEncryptedInput(await lottery.getAddress(), signer.address)
+    .addBool(picks[0])
+    .addBool(picks[1])
+    .addBool(picks[2])
+    .encrypt();
+
+  return lottery.connect(signer).enterLottery(handles[0], handles[1], handles[2], inputProof, { value });
+}
+
+// Requests a draw and settles it with its public decryption through the mock relayer
+async function draw(lottery: FHEAnonymousLottery, signer: HardhatEthersSigner) {
+  await (await lottery.connect(signer).requestDraw()).wait();
+  const requestId = await lottery.drawRequestId();
+  const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(await lottery.getDrawHandles());
+  return lottery.connect(signer).fulfillDraw(requestId, abiEncodedClearValues, decryptionProof);
+}
+
+describe("FHEAnonymousLottery", function () {
+  let signers: Signers;
+  let lotteryContract: FHEAnonymousLottery;
+  let lotteryContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], charlie: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ lotteryContract, lotteryContractAddress } = await deployFixture());
+  });
+
+  shouldBehaveLikeAnonymousLottery<FHEAnonymousLottery>({
+    deploy: (deployer) => new FHEAnonymousLottery__factory(deployer).deploy(),
+    enter,
+    draw,
+  });
+
+  describe("Encrypted Picks", function () {
+    it("✅ should store the picks as a combination only the participant can decrypt", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enter(lotteryContract, signers.alice, [true, false, true], entryFee * 2n);
+
+      const [first, second] = [await lotteryContract.entries(0), await lotteryContract.entries(1)];
+      expect(second.encryptedPicks).to.equal(first.encryptedPicks);
+
+      const combination = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        first.encryptedPicks,
+        lotteryContractAddress,
+        signers.alice,
+      );
+      expect(combination).to.equal(5n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint8, first.encryptedPicks, lotteryContractAddress, signers.bob))
+        .to.be.rejected;
+    });
+  });
+
+  describe("Encrypted Match Draw", function () {
+    it("✅ should credit a ticket matching the winning combination", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const picks of ALL_PICKS) {
+        // Alice picks every combination with num1 false, Bob every one with num1 true
+        await enter(lotteryContract, picks[0] ? signers.bob : signers.alice, picks, entryFee);
+      }
+
+      await expect(draw(lotteryContract, signers.deployer)).to.not.emit(lotteryContract, "NoWinningEntry");
+
+      const [winner] = await lotteryContract.getAllWinners();
+      expect(winner.winner).to.equal(winner.num1 === 1n ? signers.bob.address : signers.alice.address);
+    });
+
+    it("✅ should roll the pool over when no ticket matches", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+
+      // A single combination misses 7 draws out of 8; rounds that it wins are simply retried
+      for (let attempt = 0; attempt < 20; attempt++) {
+        await enter(lotteryContract, signers.alice, [true, true, true], entryFee);
+        const round = await lotteryContract.getCurrentRound();
+        const prizePool = await lotteryContract.getPrizePool();
+
+        const receipt = await (await draw(lotteryContract, signers.deployer)).wait();
+        const noWinner = receipt!.logs
+          .map((log) => lotteryContract.interface.parseLog(log))
+          .find((event) => event?.name === "NoWinningEntry");
+        if (!noWinner) {
+          continue;
+        }
+
+        expect(noWinner.args.round).to.equal(round);
+        expect(noWinner.args.rolledOverPool).to.equal(prizePool);
+        expect([noWinner.args.num1, noWinner.args.num2, noWinner.args.num3]).to.not.deep.equal([1n, 1n, 1n]);
+        expect(await lotteryContract.getCurrentRound()).to.equal(round + 1n);
+        expect(await lotteryContract.getPrizePool()).to.equal(prizePool);
+        expect(await lotteryContract.getEntryCount()).to.equal(0n);
+        return;
+      }
+      expect.fail("Every draw matched the only combination entered");
+    });
+
+    it("❌ should close entries while a draw is pending", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enter(lotteryContract, signers.alice, [true, true, true], entryFee);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(enter(lotteryContract, signers.bob, [false, true, false], entryFee)).to.be.revertedWith(
+        "Draw in progress",
+      );
+      await expect(lotteryContract.connect(signers.deployer).requestDraw()).to.be.revertedWith("Draw in progress");
+    });
+
+    it("❌ should reject a decryption that does not match the draw", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enter(lotteryContract, signers.alice, [true, true, true], entryFee);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const requestId = await lotteryContract.drawRequestId();
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(
+        await lotteryContract.getDrawHandles(),
+      );
+
+      await expect(
+        lotteryContract.fulfillDraw(requestId + 1n, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Unknown draw request");
+
+      // Flip the match flag of the only ticket
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const [combination, seed, matched] = coder.decode(["uint8", "uint32", "bool"], abiEncodedClearValues);
+      const forged = coder.encode(["uint8", "uint32", "bool"], [combination, seed, !matched]);
+      await expect(lotteryContract.fulfillDraw(requestId, forged, decryptionProof)).to.be.reverted;
+    });
+
+    it("✅ should let anyone cancel a draw that was not fulfilled in time", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enter(lotteryContract, signers.alice, [true, true, true], entryFee);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      await expect(lotteryContract.connect(signers.bob).cancelDrawRequest()).to.be.revertedWith(
+        "Draw request not timed out",
+      );
+
+      await time.increase(await lotteryContract.DRAW_REQUEST_TIMEOUT());
+      await expect(lotteryContract.connect(signers.bob).cancelDrawRequest())
+        .to.emit(lotteryContract, "DrawRequestCancelled")
+        .withArgs(1n, 1n);
+      expect(await lotteryContract.drawPending()).to.equal(false);
+      await expect(lotteryContract.getDrawHandles()).to.be.revertedWith("No draw in progress");
+
+      // The round takes entries again and can be drawn with a new request
+      await enter(lotteryContract, signers.bob, [false, true, false], entryFee);
+      await expect(draw(lotteryContract, signers.deployer)).to.emit(lotteryContract, "LotteryReset").withArgs(2n);
+      await expect(lotteryContract.cancelDrawRequest()).to.be.revertedWith("No draw in progress");
+    });
+
+    it("✅ should draw a full round and refuse purchases beyond it", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const maxPurchases = await lotteryContract.MAX_PURCHASES_PER_ROUND();
+      for (let i = 0n; i < maxPurchases; i++) {
+        await enter(lotteryContract, signers.alice, ALL_PICKS[Number(i) % ALL_PICKS.length], entryFee);
+      }
+      expect(await lotteryContract.purchaseCount()).to.equal(maxPurchases);
+
+      await expect(enter(lotteryContract, signers.bob, [true, true, true], entryFee)).to.be.revertedWith(
+        "Round is full",
+      );
+
+      await expect(draw(lotteryContract, signers.deployer)).to.emit(lotteryContract, "WinnerDrawn");
+      expect(await lotteryContract.purchaseCount()).to.equal(0n);
+      await expect(enter(lotteryContract, signers.bob, [true, true, true], entryFee)).to.not.be.reverted;
+    });
+  });
+
+  describe("Prize Claims", function () {
+    // Enters every combination once, so that any draw has exactly one winning ticket
+    async function enterEveryCombination(signer: HardhatEthersSigner) {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const picks of ALL_PICKS) {
+        await enter(lotteryContract, signer, picks, entryFee);
+      }
+    }
+
+    it("✅ should credit the prize and the owner fee for claimPrize", async function () {
+      await enterEveryCombination(signers.alice);
+      const prizePool = await lotteryContract.getPrizePool();
+      const prize = (prizePool * 80n) / 100n;
+
+      await expect(draw(lotteryContract, signers.deployer)).to.changeEtherBalance(lotteryContract, 0n);
+      expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal(prize);
+      expect(await lotteryContract.pendingWithdrawals(signers.deployer.address)).to.equal(prizePool - prize);
+      expect(await lotteryContract.totalPendingWithdrawals()).to.equal(prizePool);
+
+      const claim = lotteryContract.connect(signers.alice).claimPrize();
+      await expect(claim).to.emit(lotteryContract, "PrizeClaimed").withArgs(signers.alice.address, prize);
+      await expect(claim).to.changeEtherBalance(signers.alice, prize);
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.changeEtherBalance(
+        signers.deployer,
+        prizePool - prize,
+      );
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.be.revertedWith("Nothing to claim");
+    });
+
+    it("✅ should draw a winner that refuses ETH", async function () {
+      const receiver = await new RevertingReceiver__factory(signers.deployer).deploy();
+      const receiverAddress = await receiver.getAddress();
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const picks of ALL_PICKS) {
+        const { handles, inputProof } = await fhevm
+          .createEncryptedInput(lotteryContractAddress, receiverAddress)
+          .addBool(picks[0])
+          .addBool(picks[1])
+          .addBool(picks[2])
+          .encrypt();
+        const enterCall = lotteryContract.interface.encodeFunctionData("enterLottery", [
+          handles[0],
+          handles[1],
+          handles[2],
+          inputProof,
+        ]);
+        await receiver.execute(lotteryContractAddress, enterCall, { value: entryFee });
+      }
+
+      await expect(draw(lotteryContract, signers.deployer)).to.emit(lotteryContract, "WinnerDrawn");
+      expect(await lotteryContract.getLastWinner()).to.equal(receiverAddress);
+
+      const claim = lotteryContract.interface.encodeFunctionData("claimPrize");
+      await expect(receiver.execute(lotteryContractAddress, claim)).to.be.revertedWith("Prize transfer failed");
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.not.be.reverted;
+    });
+
+    it("✅ should keep unclaimed prizes out of emergency withdrawals and end a drained round", async function () {
+      await enterEveryCombination(signers.alice);
+      await (await draw(lotteryContract, signers.deployer)).wait();
+      const entryFee = await lotteryContract.getEntryFee();
+      await enter(lotteryContract, signers.bob, [true, true, true], entryFee);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const reserved = await lotteryContract.totalPendingWithdrawals();
+
+      await expect(lotteryContract.connect(signers.deployer).emergencyWithdraw())
+        .to.emit(lotteryContract, "EmergencyWithdrawal")
+        .withArgs(signers.deployer.address, entryFee, 2n, entryFee)
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(3n);
+
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(reserved);
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+      expect(await lotteryContract.drawPending()).to.equal(false);
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.not.be.reverted;
+    });
+  });
+});
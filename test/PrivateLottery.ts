@@ -1,6 +1,17 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
-import { PrivateLottery, PrivateLottery__factory } from "../types";
+import {
+  CommitRevealRandomnessSource,
+  CommitRevealRandomnessSource__factory,
+  FHERandomnessSource,
+  FHERandomnessSource__factory,
+  MockVRFCoordinator,
+  MockVRFCoordinator__factory,
+  PrivateLottery,
+  PrivateLottery__factory,
+} from "../types";
 import { expect } from "chai";
 
 type Signers = {
@@ -10,9 +21,8 @@ type Signers = {
   charlie: HardhatEthersSigner;
 };
 
-async function deployFixture() {
-  const factory = (await ethers.getContractFactory("PrivateLottery")) as PrivateLottery__factory;
-  const lotteryContract = (await factory.deploy()) as PrivateLottery;
+async function deployFixture(randomnessSource: string = ethers.ZeroAddress) {
+  const lotteryContract = await new PrivateLottery__factory((await ethers.getSigners())[0]).deploy(randomnessSource);
   const lotteryContractAddress = await lotteryContract.getAddress();
 
   return { lotteryContract, lotteryContractAddress };
@@ -38,6 +48,13 @@ describe("PrivateLottery", function () {
     ({ lotteryContract, lotteryContractAddress } = await deployFixture());
   });
 
+  // Publicly decrypts the pending draw through the mock relayer
+  async function decryptDraw() {
+    const requestId = await lotteryContract.drawRequestId();
+    const handles = await lotteryContract.getDrawHandles();
+    return { requestId, handles, ...(await fhevm.publicDecrypt(handles)) };
+  }
+
   describe("Deployment", function () {
     it("✅ should set the owner correctly", async function () {
       expect(await lotteryContract.owner()).to.equal(signers.deployer.address);
@@ -266,6 +283,473 @@ describe("PrivateLottery", function () {
     });
   });
 
+  describe("Two-Phase Draw", function () {
+    const numbers = { alice: 11, bob: 22, charlie: 33 };
+
+    beforeEach(async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const name of ["alice", "bob", "charlie"] as const) {
+        const input = await fhevm
+          .createEncryptedInput(lotteryContractAddress, signers[name].address)
+          .add32(numbers[name])
+          .encrypt();
+        await lotteryContract
+          .connect(signers[name])
+          .enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+      }
+    });
+
+    it("✅ should make the chosen entry's number publicly decryptable", async function () {
+      await expect(lotteryContract.connect(signers.deployer).requestDraw())
+        .to.emit(lotteryContract, "DrawRequested")
+        .withArgs(1n, 1n, (handles: string[]) => handles.length === 1);
+
+      expect(await lotteryContract.drawPending()).to.be.true;
+      const [handle] = await lotteryContract.getDrawHandles();
+      const winningNumber = await fhevm.publicDecryptEuint(FhevmType.euint32, handle);
+      expect(Object.values(numbers)).to.include(Number(winningNumber));
+    });
+
+    it("✅ should record the real winning number of the winner", async function () {
+      const prizePool = await lotteryContract.getPrizePool();
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      const winningNumber = Number(decrypted.clearValues[decrypted.handles[0] as `0x${string}`]);
+
+      const tx = lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+      await expect(tx).to.emit(lotteryContract, "WinnerDrawn");
+
+      const [winner] = await lotteryContract.getAllWinners();
+      const name = (["alice", "bob", "charlie"] as const).find((n) => signers[n].address === winner.winner)!;
+      expect(winner.winningNumber).to.equal(BigInt(winningNumber));
+      expect(winningNumber).to.equal(numbers[name]);
+      expect(winner.prize).to.equal((prizePool * 80n) / 100n);
+      await expect(tx)
+        .to.emit(lotteryContract, "WinnerDrawn")
+        .withArgs(winner.winner, winner.prize, winningNumber, 1n, 0n);
+      expect(await lotteryContract.getCurrentRound()).to.equal(2n);
+    });
+
+    it("✅ should number draw requests across rounds", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const first = await decryptDraw();
+      await lotteryContract.fulfillDraw(first.requestId, first.abiEncodedClearValues, first.decryptionProof);
+
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signers.alice.address).add32(5).encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(input.handles[0], input.inputProof, { value: await lotteryContract.getEntryFee() });
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      expect(first.requestId).to.equal(1n);
+      expect(await lotteryContract.drawRequestId()).to.equal(2n);
+    });
+
+    it("❌ should reject a fulfillment for another request", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+
+      await expect(
+        lotteryContract.fulfillDraw(2, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      ).to.be.revertedWith("Unknown draw request");
+    });
+
+    it("❌ should reject a forged winning number", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [77]);
+
+      await expect(lotteryContract.fulfillDraw(decrypted.requestId, forged, decrypted.decryptionProof)).to.be.reverted;
+    });
+
+    it("❌ should reject drawWinner while a draw is pending", async function () {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith("Draw in progress");
+    });
+  });
+
+  describe("Encrypted Match Draw", function () {
+    // Enters every number in one encrypted input; an input holds at most 64 euint32 values
+    async function enterNumbers(signer: HardhatEthersSigner, numbers: number[]) {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (let i = 0; i < numbers.length; i += 50) {
+        const input = fhevm.createEncryptedInput(lotteryContractAddress, signer.address);
+        numbers.slice(i, i + 50).forEach((number) => input.add32(number));
+        const encryptedInput = await input.encrypt();
+        for (const handle of encryptedInput.handles) {
+          await lotteryContract.connect(signer).enterLottery(handle, encryptedInput.inputProof, { value: entryFee });
+        }
+      }
+    }
+
+    const allNumbers = Array.from({ length: 100 }, (_, i) => i + 1);
+
+    beforeEach(async function () {
+      await lotteryContract.connect(signers.deployer).setDrawMode(1);
+    });
+
+    it("✅ should switch the draw mode", async function () {
+      expect(await lotteryContract.drawMode()).to.equal(1n);
+      await expect(lotteryContract.connect(signers.deployer).setDrawMode(0))
+        .to.emit(lotteryContract, "DrawModeChanged")
+        .withArgs(0);
+    });
+
+    it("❌ should reject drawWinner in encrypted match mode", async function () {
+      await enterNumbers(signers.alice, [42]);
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith(
+        "Use requestDraw in encrypted match mode",
+      );
+    });
+
+    it("✅ should draw an encrypted winning number between 1 and 100", async function () {
+      await enterNumbers(signers.alice, [42]);
+
+      await expect(lotteryContract.connect(signers.deployer).requestDraw()).to.emit(lotteryContract, "DrawRequested");
+
+      const handles = await lotteryContract.getDrawHandles();
+      expect(handles.length).to.equal(2);
+      const winningNumber = await fhevm.publicDecryptEuint(FhevmType.euint32, handles[0]);
+      expect(winningNumber).to.be.gte(1n);
+      expect(winningNumber).to.be.lte(100n);
+    });
+
+    it("✅ should pay the entry matching the decrypted winning number", async function () {
+      await enterNumbers(signers.alice, allNumbers);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      const handles = decrypted.handles;
+      const winningNumber = Number(decrypted.clearValues[handles[0] as `0x${string}`]);
+
+      // Exactly one of alice's numbers matches, and only that one decrypts to true
+      const matches = handles.slice(1).filter((handle) => decrypted.clearValues[handle as `0x${string}`] === true);
+      expect(matches.length).to.equal(1);
+      expect(decrypted.clearValues[handles[winningNumber] as `0x${string}`]).to.equal(true);
+
+      const expectedPrize = (prizePool * 80n) / 100n;
+      await lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+      expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal(expectedPrize);
+
+      const winners = await lotteryContract.getAllWinners();
+      expect(winners.length).to.equal(1);
+      expect(winners[0].winner).to.equal(signers.alice.address);
+      expect(winners[0].winningNumber).to.equal(BigInt(winningNumber));
+      expect(winners[0].prize).to.equal(expectedPrize);
+      expect(winners[0].round).to.equal(1n);
+      expect(await lotteryContract.getCurrentRound()).to.equal(2n);
+      expect(await lotteryContract.drawPending()).to.be.false;
+    });
+
+    it("✅ should split the prize between all matching entries", async function () {
+      await enterNumbers(signers.alice, allNumbers);
+      await enterNumbers(signers.bob, allNumbers);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      await lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+
+      const winners = await lotteryContract.getAllWinners();
+      expect(winners.map((winner) => winner.winner)).to.have.members([signers.alice.address, signers.bob.address]);
+      expect(winners[0].prize).to.equal((prizePool * 80n) / 100n / 2n);
+      expect(winners[0].winningNumber).to.equal(winners[1].winningNumber);
+    });
+
+    it("✅ should roll the prize pool over when no entry matches", async function () {
+      // 0 is outside the drawn range, so it can never match
+      await enterNumbers(signers.alice, [0]);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+
+      await expect(
+        lotteryContract.fulfillDraw(decrypted.requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      )
+        .to.emit(lotteryContract, "NoWinningEntry")
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+
+      expect((await lotteryContract.getAllWinners()).length).to.equal(0);
+      expect(await lotteryContract.getPrizePool()).to.equal(prizePool);
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+    });
+
+    it("✅ should draw a full round and refuse entries beyond it", async function () {
+      const maxEntries = Number(await lotteryContract.MAX_MATCH_ENTRIES());
+      const entryFee = await lotteryContract.getEntryFee();
+      const numbers = Array.from({ length: maxEntries }, (_, i) => (i % 100) + 1);
+      await enterNumbers(signers.alice, numbers);
+      expect(await lotteryContract.getEntryCount()).to.equal(BigInt(maxEntries));
+
+      await expect(enterNumbers(signers.bob, [7])).to.be.revertedWith("Round is full");
+      const input = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.bob.address)
+        .add32(7)
+        .add32(8)
+        .encrypt();
+      const value = entryFee * 2n;
+      await expect(
+        lotteryContract.connect(signers.bob).enterLotteryBatch(input.handles, input.inputProof, { value }),
+      ).to.be.revertedWith("Round is full");
+
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      await expect(
+        lotteryContract.fulfillDraw(decrypted.requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      ).to.emit(lotteryContract, "WinnerDrawn");
+      await expect(enterNumbers(signers.bob, [7])).to.not.be.reverted;
+    });
+
+    it("❌ should not switch a round with too many entries to encrypted match", async function () {
+      const maxEntries = Number(await lotteryContract.MAX_MATCH_ENTRIES());
+      await lotteryContract.connect(signers.deployer).setDrawMode(0);
+      const numbers = Array.from({ length: maxEntries + 1 }, (_, i) => (i % 100) + 1);
+      await enterNumbers(signers.alice, numbers);
+
+      await expect(lotteryContract.connect(signers.deployer).setDrawMode(1)).to.be.revertedWith(
+        "Too many entries for EncryptedMatch",
+      );
+    });
+
+    it("❌ should reject entries while a draw is pending", async function () {
+      await enterNumbers(signers.alice, [42]);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(enterNumbers(signers.bob, [7])).to.be.revertedWith("Draw in progress");
+      await expect(lotteryContract.connect(signers.deployer).setDrawMode(0)).to.be.revertedWith("Draw in progress");
+    });
+
+    it("❌ should reject a tampered decryption result", async function () {
+      await enterNumbers(signers.alice, [0]);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+
+      // Claim that alice's entry matched
+      const tampered = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "bool"],
+        [decrypted.clearValues[decrypted.handles[0] as `0x${string}`], true],
+      );
+
+      await expect(lotteryContract.fulfillDraw(decrypted.requestId, tampered, decrypted.decryptionProof)).to.be
+        .reverted;
+      expect(await lotteryContract.drawPending()).to.be.true;
+    });
+
+    it("❌ should reject fulfillDraw without a pending draw", async function () {
+      await expect(lotteryContract.fulfillDraw(1, "0x", "0x")).to.be.revertedWith("No draw in progress");
+    });
+
+    it("❌ should reject requestDraw from non-owner", async function () {
+      await enterNumbers(signers.alice, [42]);
+
+      await expect(lotteryContract.connect(signers.alice).requestDraw()).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
+  });
+
+  describe("Randomness Source", function () {
+    const numbers = { alice: 11, bob: 22, charlie: 33 };
+    const names = ["alice", "bob", "charlie"] as const;
+
+    // Redeploys the lottery with a randomness source and enters one ticket per signer
+    async function deployWithSource(source: { getAddress(): Promise<string> }) {
+      ({ lotteryContract, lotteryContractAddress } = await deployFixture(await source.getAddress()));
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const name of names) {
+        const input = await fhevm
+          .createEncryptedInput(lotteryContractAddress, signers[name].address)
+          .add32(numbers[name])
+          .encrypt();
+        await lotteryContract
+          .connect(signers[name])
+          .enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+      }
+    }
+
+    // Entry a word picks for the first prize tier, as in PrivateLottery.pickTierEntries
+    function firstPick(randomWord: bigint) {
+      return BigInt(ethers.solidityPackedKeccak256(["uint256", "uint256"], [randomWord, 0n])) % BigInt(names.length);
+    }
+
+    async function fulfillSeededDraw() {
+      const decrypted = await decryptDraw();
+      await lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+      const [winner] = await lotteryContract.getAllWinners();
+      return winner;
+    }
+
+    describe("Mock VRF Coordinator", function () {
+      let coordinator: MockVRFCoordinator;
+
+      beforeEach(async function () {
+        coordinator = await new MockVRFCoordinator__factory(signers.deployer).deploy();
+        await deployWithSource(coordinator);
+      });
+
+      it("✅ should request a word instead of picking entries from block data", async function () {
+        await expect(lotteryContract.connect(signers.deployer).requestDraw())
+          .to.emit(lotteryContract, "DrawRequested")
+          .withArgs(1n, 1n, [])
+          .and.to.emit(coordinator, "RandomnessRequested")
+          .withArgs(1n, lotteryContractAddress);
+
+        expect(await lotteryContract.randomnessRequestId()).to.equal(1n);
+        expect(await lotteryContract.getDrawHandles()).to.deep.equal([]);
+        await expect(lotteryContract.fulfillDraw(1n, "0x", "0x")).to.be.revertedWith("Waiting for randomness");
+      });
+
+      it("✅ should pick the winner from the delivered word", async function () {
+        const randomWord = 123456789n;
+        await lotteryContract.connect(signers.deployer).requestDraw();
+
+        await expect(coordinator.fulfillRandomWords(1n, randomWord))
+          .to.emit(lotteryContract, "DrawSeeded")
+          .withArgs(1n, randomWord, (handles: string[]) => handles.length === 1);
+        expect(await lotteryContract.randomnessRequestId()).to.equal(0n);
+
+        const winner = await fulfillSeededDraw();
+        const name = names[Number(firstPick(randomWord))];
+        expect(winner.winner).to.equal(signers[name].address);
+        expect(winner.winningNumber).to.equal(BigInt(numbers[name]));
+      });
+
+      it("✅ should let cancelRound drop a draw that waits for randomness", async function () {
+        await lotteryContract.connect(signers.deployer).requestDraw();
+        await time.increase(await lotteryContract.DRAW_REQUEST_TIMEOUT());
+        await lotteryContract.connect(signers.deployer).cancelRound();
+
+        expect(await lotteryContract.randomnessRequestId()).to.equal(0n);
+        await expect(coordinator.fulfillRandomWords(1n, 42n)).to.be.revertedWith("Unknown randomness request");
+      });
+
+      it("❌ should reject drawWinner with a randomness source", async function () {
+        await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith(
+          "Use requestDraw with a randomness source",
+        );
+      });
+
+      it("❌ should only accept words from the randomness source", async function () {
+        await lotteryContract.connect(signers.deployer).requestDraw();
+
+        await expect(lotteryContract.connect(signers.deployer).fulfillRandomness(1n, 42n)).to.be.revertedWith(
+          "Only randomness source",
+        );
+      });
+    });
+
+    describe("FHE Source", function () {
+      let source: FHERandomnessSource;
+
+      beforeEach(async function () {
+        source = await new FHERandomnessSource__factory(signers.deployer).deploy();
+        await deployWithSource(source);
+      });
+
+      it("✅ should pick the winner from a publicly decrypted FHE.randEuint32", async function () {
+        await lotteryContract.connect(signers.deployer).requestDraw();
+        const handle = await source.getRequestHandle(1n);
+        const decrypted = await fhevm.publicDecrypt([handle]);
+        const randomWord = BigInt(decrypted.clearValues[handle as `0x${string}`]);
+
+        await expect(
+          source.connect(signers.alice).fulfill(1n, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+        )
+          .to.emit(source, "RandomnessFulfilled")
+          .withArgs(1n, randomWord)
+          .and.to.emit(lotteryContract, "DrawSeeded");
+
+        const winner = await fulfillSeededDraw();
+        expect(winner.winner).to.equal(signers[names[Number(firstPick(randomWord))]].address);
+      });
+
+      it("❌ should reject a second fulfillment and unknown requests", async function () {
+        await lotteryContract.connect(signers.deployer).requestDraw();
+        const handle = await source.getRequestHandle(1n);
+        const decrypted = await fhevm.publicDecrypt([handle]);
+        await source.fulfill(1n, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+
+        await expect(source.fulfill(1n, decrypted.abiEncodedClearValues, decrypted.decryptionProof)).to.be.revertedWith(
+          "Request already fulfilled",
+        );
+        await expect(source.getRequestHandle(2n)).to.be.revertedWith("Unknown request");
+      });
+    });
+
+    describe("Commit-Reveal Source", function () {
+      const secret = ethers.id("operator secret");
+      let source: CommitRevealRandomnessSource;
+
+      beforeEach(async function () {
+        source = await new CommitRevealRandomnessSource__factory(signers.deployer).deploy();
+        await deployWithSource(source);
+      });
+
+      it("✅ should derive the word from the revealed secret and the request block", async function () {
+        await source.connect(signers.deployer).commit([ethers.keccak256(secret)]);
+        const receipt = await (await lotteryContract.connect(signers.deployer).requestDraw()).wait();
+        expect(await source.availableCommitments()).to.equal(0n);
+
+        const blockHash = (await ethers.provider.getBlock(receipt!.blockNumber))!.hash!;
+        const randomWord = BigInt(ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [secret, blockHash]));
+        await expect(source.connect(signers.deployer).reveal(1n, secret))
+          .to.emit(lotteryContract, "DrawSeeded")
+          .withArgs(1n, randomWord, (handles: string[]) => handles.length === 1);
+
+        const winner = await fulfillSeededDraw();
+        expect(winner.winner).to.equal(signers[names[Number(firstPick(randomWord))]].address);
+      });
+
+      it("❌ should not draw without a commitment", async function () {
+        await expect(lotteryContract.connect(signers.deployer).requestDraw()).to.be.revertedWith(
+          "No commitment available",
+        );
+      });
+
+      it("❌ should reject a wrong secret", async function () {
+        await source.connect(signers.deployer).commit([ethers.keccak256(secret)]);
+        await lotteryContract.connect(signers.deployer).requestDraw();
+
+        await expect(source.connect(signers.deployer).reveal(1n, ethers.id("guess"))).to.be.revertedWith(
+          "Invalid secret",
+        );
+      });
+
+      it("❌ should only let the operator commit and reveal", async function () {
+        await expect(source.connect(signers.alice).commit([ethers.keccak256(secret)])).to.be.revertedWith(
+          "Only operator can call this function",
+        );
+        await source.connect(signers.deployer).commit([ethers.keccak256(secret)]);
+        await lotteryContract.connect(signers.deployer).requestDraw();
+
+        await expect(source.connect(signers.alice).reveal(1n, secret)).to.be.revertedWith(
+          "Only operator can call this function",
+        );
+      });
+    });
+  });
+
   describe("Owner Functions", function () {
     it("✅ should allow owner to set entry fee", async function () {
       const newFee = ethers.parseEther("0.005");
@@ -275,9 +759,9 @@ describe("PrivateLottery", function () {
 
     it("❌ should reject fee change from non-owner", async function () {
       const newFee = ethers.parseEther("0.005");
-      await expect(
-        lotteryContract.connect(signers.alice).setEntryFee(newFee),
-      ).to.be.revertedWith("Only owner can call this function");
+      await expect(lotteryContract.connect(signers.alice).setEntryFee(newFee)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
     });
 
     it("✅ should allow owner to toggle lottery active status", async function () {
@@ -291,9 +775,9 @@ describe("PrivateLottery", function () {
     });
 
     it("❌ should reject toggle from non-owner", async function () {
-      await expect(
-        lotteryContract.connect(signers.alice).setLotteryActive(false),
-      ).to.be.revertedWith("Only owner can call this function");
+      await expect(lotteryContract.connect(signers.alice).setLotteryActive(false)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
     });
 
     it("✅ should allow owner to perform emergency withdraw", async function () {
@@ -356,79 +840,337 @@ describe("PrivateLottery", function () {
     });
   });
 
-  describe("View Functions", function () {
-    it("✅ should return correct participant history", async function () {
+  describe("Ticket Decryption", function () {
+    beforeEach(async function () {
       const entryFee = await lotteryContract.getEntryFee();
-
-      const input1 = await fhevm
+      const input = await fhevm
         .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(10)
+        .add32(42)
+        .add32(7)
         .encrypt();
-      await lotteryContract
-        .connect(signers.alice)
-        .enterLottery(input1.handles[0], input1.inputProof, { value: entryFee });
+      for (const handle of input.handles) {
+        await lotteryContract.connect(signers.alice).enterLottery(handle, input.inputProof, { value: entryFee });
+      }
+    });
 
-      const input2 = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(20)
-        .encrypt();
-      await lotteryContract
-        .connect(signers.alice)
-        .enterLottery(input2.handles[0], input2.inputProof, { value: entryFee });
+    it("✅ should let a participant decrypt their own entries", async function () {
+      const handles = await lotteryContract.connect(signers.alice).getMyEntries(1);
+      expect(handles.length).to.equal(2);
 
-      expect(await lotteryContract.getParticipantEntries(signers.alice.address)).to.equal(2n);
+      const numbers = [];
+      for (const handle of handles) {
+        numbers.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, signers.alice));
+      }
+      expect(numbers).to.deep.equal([42n, 7n]);
     });
 
-    it("✅ should return correct winner status", async function () {
-      expect(await lotteryContract.hasParticipantWon(signers.alice.address)).to.be.false;
+    it("✅ should keep entries of past rounds addressable", async function () {
+      await lotteryContract.connect(signers.deployer).drawWinner();
 
-      // Setup entries
+      expect((await lotteryContract.connect(signers.alice).getMyEntries(1)).length).to.equal(2);
+      expect((await lotteryContract.connect(signers.alice).getMyEntries(2)).length).to.equal(0);
+    });
+
+    it("✅ should return no entries for another participant", async function () {
+      expect((await lotteryContract.connect(signers.bob).getMyEntries(1)).length).to.equal(0);
+    });
+
+    it("❌ should not let another participant decrypt an entry", async function () {
+      const [handle] = await lotteryContract.connect(signers.alice).getMyEntries(1);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, signers.bob)).to.be
+        .rejected;
+    });
+  });
+
+  describe("Batch Entries", function () {
+    async function encryptNumbers(signer: HardhatEthersSigner, numbers: number[]) {
+      const input = fhevm.createEncryptedInput(lotteryContractAddress, signer.address);
+      numbers.forEach((number) => input.add32(number));
+      return input.encrypt();
+    }
+
+    it("✅ should enter several numbers from one encrypted input", async function () {
       const entryFee = await lotteryContract.getEntryFee();
-      const aliceInput = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(40)
-        .encrypt();
-      await lotteryContract
-        .connect(signers.alice)
-        .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+      const { handles, inputProof } = await encryptNumbers(signers.alice, [5, 17, 42]);
 
-      const bobInput = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.bob.address)
-        .add32(50)
-        .encrypt();
-      await lotteryContract
-        .connect(signers.bob)
-        .enterLottery(bobInput.handles[0], bobInput.inputProof, { value: entryFee });
+      const tx = lotteryContract
+        .connect(signers.alice)
+        .enterLotteryBatch(handles, inputProof, { value: entryFee * 3n });
+      await expect(tx).to.changeEtherBalance(signers.alice, -(entryFee * 3n));
 
-      // Draw winner
-      await lotteryContract.connect(signers.deployer).drawWinner();
+      expect(await lotteryContract.getEntryCount()).to.equal(3n);
+      expect(await lotteryContract.getParticipantEntries(signers.alice.address)).to.equal(3n);
+      expect(await lotteryContract.getPrizePool()).to.equal(entryFee * 3n);
 
-      // At least one participant should have won
-      const aliceWon = await lotteryContract.hasParticipantWon(signers.alice.address);
-      const bobWon = await lotteryContract.hasParticipantWon(signers.bob.address);
-      expect(aliceWon || bobWon).to.be.true;
+      const numbers = [];
+      for (const handle of await lotteryContract.connect(signers.alice).getMyEntries(1)) {
+        numbers.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, signers.alice));
+      }
+      expect(numbers).to.deep.equal([5n, 17n, 42n]);
     });
 
-    it("✅ should return zero entries for non-participant", async function () {
-      expect(await lotteryContract.getParticipantEntries(signers.charlie.address)).to.equal(0n);
+    it("✅ should emit LotteryEntered for every ticket", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const { handles, inputProof } = await encryptNumbers(signers.alice, [1, 2]);
+
+      const receipt = await (
+        await lotteryContract.connect(signers.alice).enterLotteryBatch(handles, inputProof, { value: entryFee * 2n })
+      ).wait();
+      const entered = receipt!.logs.filter((log) => lotteryContract.interface.parseLog(log)?.name === "LotteryEntered");
+      expect(entered.length).to.equal(2);
     });
 
-    it("✅ should return false for non-winner", async function () {
-      expect(await lotteryContract.hasParticipantWon(signers.bob.address)).to.be.false;
+    it("❌ should reject a batch paying for fewer tickets than it enters", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const { handles, inputProof } = await encryptNumbers(signers.alice, [5, 17, 42]);
+
+      await expect(
+        lotteryContract.connect(signers.alice).enterLotteryBatch(handles, inputProof, { value: entryFee * 2n }),
+      ).to.be.revertedWith("Insufficient entry fee");
     });
 
-    it("✅ should return correct prize pool with no entries", async function () {
-      expect(await lotteryContract.getPrizePool()).to.equal(0n);
+    it("❌ should reject an empty batch", async function () {
+      const { inputProof } = await encryptNumbers(signers.alice, [5]);
+
+      await expect(lotteryContract.connect(signers.alice).enterLotteryBatch([], inputProof)).to.be.revertedWith(
+        "No numbers given",
+      );
     });
-  });
 
-  describe("Event Emission", function () {
-    it("✅ should emit LotteryEntered event on entry", async function () {
+    it("❌ should reject tickets beyond the per-address cap", async function () {
       const entryFee = await lotteryContract.getEntryFee();
-      const encryptedInput = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(42)
-        .encrypt();
+      await expect(lotteryContract.connect(signers.deployer).setMaxTicketsPerAddress(2))
+        .to.emit(lotteryContract, "MaxTicketsPerAddressChanged")
+        .withArgs(2n);
+
+      const batch = await encryptNumbers(signers.alice, [5, 17, 42]);
+      await expect(
+        lotteryContract
+          .connect(signers.alice)
+          .enterLotteryBatch(batch.handles, batch.inputProof, { value: entryFee * 3n }),
+      ).to.be.revertedWith("Ticket limit reached");
+
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLotteryBatch(batch.handles.slice(0, 2), batch.inputProof, { value: entryFee * 2n });
+      const single = await encryptNumbers(signers.alice, [99]);
+      await expect(
+        lotteryContract.connect(signers.alice).enterLottery(single.handles[0], single.inputProof, { value: entryFee }),
+      ).to.be.revertedWith("Ticket limit reached");
+
+      // The cap applies per address and per round
+      const bobInput = await encryptNumbers(signers.bob, [99]);
+      await lotteryContract
+        .connect(signers.bob)
+        .enterLottery(bobInput.handles[0], bobInput.inputProof, { value: entryFee });
+      await lotteryContract.connect(signers.deployer).drawWinner();
+      const nextRound = await encryptNumbers(signers.alice, [3, 4]);
+      await expect(
+        lotteryContract
+          .connect(signers.alice)
+          .enterLotteryBatch(nextRound.handles, nextRound.inputProof, { value: entryFee * 2n }),
+      ).to.not.be.reverted;
+    });
+
+    it("❌ should reject cap changes from non-owner", async function () {
+      await expect(lotteryContract.connect(signers.alice).setMaxTicketsPerAddress(1)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
+  });
+
+  describe("Number Range", function () {
+    async function storedNumbers(numbers: number[]) {
+      const entryFee = await lotteryContract.getEntryFee();
+      const input = fhevm.createEncryptedInput(lotteryContractAddress, signers.alice.address);
+      numbers.forEach((number) => input.add32(number));
+      const encryptedInput = await input.encrypt();
+      for (const handle of encryptedInput.handles) {
+        await lotteryContract
+          .connect(signers.alice)
+          .enterLottery(handle, encryptedInput.inputProof, { value: entryFee });
+      }
+
+      const stored = [];
+      for (const handle of await lotteryContract.connect(signers.alice).getMyEntries(1)) {
+        stored.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, signers.alice));
+      }
+      return stored;
+    }
+
+    it("✅ should keep numbers within 1-100", async function () {
+      expect(await storedNumbers([1, 50, 100])).to.deep.equal([1n, 50n, 100n]);
+    });
+
+    it("✅ should store out-of-range numbers as the invalid sentinel", async function () {
+      const invalid = await lotteryContract.INVALID_NUMBER();
+
+      expect(await storedNumbers([0, 101, 2 ** 32 - 1])).to.deep.equal([invalid, invalid, invalid]);
+    });
+
+    it("✅ should still accept the entry fee for an out-of-range number", async function () {
+      await storedNumbers([101]);
+
+      expect(await lotteryContract.getEntryCount()).to.equal(1n);
+      expect(await lotteryContract.getPrizePool()).to.equal(await lotteryContract.getEntryFee());
+    });
+  });
+
+  describe("View Functions", function () {
+    it("✅ should return correct participant history", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+
+      const input1 = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(10)
+        .encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(input1.handles[0], input1.inputProof, { value: entryFee });
+
+      const input2 = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(20)
+        .encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(input2.handles[0], input2.inputProof, { value: entryFee });
+
+      expect(await lotteryContract.getParticipantEntries(signers.alice.address)).to.equal(2n);
+    });
+
+    it("✅ should return correct winner status", async function () {
+      expect(await lotteryContract.hasParticipantWon(signers.alice.address)).to.be.false;
+
+      // Setup entries
+      const entryFee = await lotteryContract.getEntryFee();
+      const aliceInput = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(40)
+        .encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+
+      const bobInput = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.bob.address)
+        .add32(50)
+        .encrypt();
+      await lotteryContract
+        .connect(signers.bob)
+        .enterLottery(bobInput.handles[0], bobInput.inputProof, { value: entryFee });
+
+      // Draw winner
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      // At least one participant should have won
+      const aliceWon = await lotteryContract.hasParticipantWon(signers.alice.address);
+      const bobWon = await lotteryContract.hasParticipantWon(signers.bob.address);
+      expect(aliceWon || bobWon).to.be.true;
+    });
+
+    it("✅ should return zero entries for non-participant", async function () {
+      expect(await lotteryContract.getParticipantEntries(signers.charlie.address)).to.equal(0n);
+    });
+
+    it("✅ should return false for non-winner", async function () {
+      expect(await lotteryContract.hasParticipantWon(signers.bob.address)).to.be.false;
+    });
+
+    it("✅ should return correct prize pool with no entries", async function () {
+      expect(await lotteryContract.getPrizePool()).to.equal(0n);
+    });
+
+    it("✅ should return the current round with its live pool", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signers.alice.address).add32(10).encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+
+      const round = await lotteryContract.getRound(1n);
+      expect(round.round).to.equal(1n);
+      expect(round.entryCount).to.equal(1n);
+      expect(round.pool).to.equal(entryFee);
+      expect(round.startedAt).to.be.greaterThan(0n);
+      expect(round.endedAt).to.equal(0n);
+      expect(round.cancelled).to.be.false;
+      expect(round.winners).to.deep.equal([]);
+    });
+
+    it("✅ should keep the entries, pool and winners of past rounds", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const signer of [signers.alice, signers.bob]) {
+        const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(10).encrypt();
+        await lotteryContract.connect(signer).enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+      }
+      const drawTx = await lotteryContract.connect(signers.deployer).drawWinner();
+      const drawBlock = await ethers.provider.getBlock((await drawTx.wait())!.blockNumber);
+
+      const round = await lotteryContract.getRound(1n);
+      expect(round.entryCount).to.equal(2n);
+      expect(round.pool).to.equal(entryFee * 2n);
+      expect(round.endedAt).to.equal(BigInt(drawBlock!.timestamp));
+      expect(round.winners.length).to.equal(1);
+      expect(round.winners[0].winner).to.equal(await lotteryContract.getLastWinner());
+      expect(round.winners[0].round).to.equal(1n);
+
+      const next = await lotteryContract.getRound(2n);
+      expect(next.entryCount).to.equal(0n);
+      expect(next.pool).to.equal(0n);
+      expect(next.startedAt).to.equal(BigInt(drawBlock!.timestamp));
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+    });
+
+    it("✅ should mark cancelled rounds", async function () {
+      await lotteryContract.connect(signers.deployer).cancelRound();
+
+      expect((await lotteryContract.getRound(1n)).cancelled).to.be.true;
+      expect((await lotteryContract.getRound(2n)).cancelled).to.be.false;
+    });
+
+    it("❌ should reject rounds that have not started", async function () {
+      await expect(lotteryContract.getRound(0n)).to.be.revertedWith("Round not started");
+      await expect(lotteryContract.getRound(2n)).to.be.revertedWith("Round not started");
+      await expect(lotteryContract.getParticipantEntriesInRound(signers.alice.address, 2n)).to.be.revertedWith(
+        "Round not started",
+      );
+      await expect(lotteryContract.getEntries(2n, 0n, 10n)).to.be.revertedWith("Round not started");
+    });
+
+    it("✅ should page through the entries of a round and every winner", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(10).encrypt();
+        await lotteryContract.connect(signer).enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+      }
+
+      const [firstPage, total] = await lotteryContract.getEntries(1n, 0n, 2n);
+      expect(total).to.equal(3n);
+      expect(firstPage.map((entry) => entry.participant)).to.deep.equal([signers.alice.address, signers.bob.address]);
+      const [lastPage] = await lotteryContract.getEntries(1n, 2n, 2n);
+      expect(lastPage.map((entry) => entry.participant)).to.deep.equal([signers.charlie.address]);
+      expect((await lotteryContract.getEntries(1n, 3n, 2n))[0]).to.deep.equal([]);
+
+      await lotteryContract.connect(signers.deployer).drawWinner();
+      const [winners, winnerCount] = await lotteryContract.getWinners(0n, 10n);
+      expect(winnerCount).to.equal(1n);
+      expect(winners.map((winner) => winner.winner)).to.deep.equal([await lotteryContract.getLastWinner()]);
+      expect((await lotteryContract.getWinners(1n, 10n))[0]).to.deep.equal([]);
+      // Past rounds keep their entries
+      expect((await lotteryContract.getEntries(1n, 0n, 10n))[1]).to.equal(3n);
+      expect((await lotteryContract.getEntries(2n, 0n, 10n))[1]).to.equal(0n);
+    });
+  });
+
+  describe("Event Emission", function () {
+    it("✅ should emit LotteryEntered event on entry", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const encryptedInput = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(42)
+        .encrypt();
 
       await expect(
         lotteryContract
@@ -552,26 +1294,46 @@ describe("PrivateLottery", function () {
 
     it("✅ should handle large number of participants", async function () {
       const entryFee = await lotteryContract.getEntryFee();
-
-      // Add 10 entries from different values
-      for (let i = 0; i < 10; i++) {
-        const input = await fhevm
-          .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-          .add32(i + 1)
-          .encrypt();
+      const entrants = (await ethers.getSigners()).slice(1);
+      const ticketCount = 2_000;
+      const batchSize = 50;
+
+      // Add 2,000 entries in batches, taking turns among every account but the owner
+      for (let batch = 0; batch < ticketCount / batchSize; batch++) {
+        const signer = entrants[batch % entrants.length];
+        const input = fhevm.createEncryptedInput(lotteryContractAddress, signer.address);
+        for (let i = 0; i < batchSize; i++) input.add32(((batch * batchSize + i) % 100) + 1);
+        const encrypted = await input.encrypt();
         await lotteryContract
-          .connect(signers.alice)
-          .enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+          .connect(signer)
+          .enterLotteryBatch(encrypted.handles, encrypted.inputProof, { value: entryFee * BigInt(batchSize) });
       }
 
-      expect(await lotteryContract.getEntryCount()).to.equal(10n);
-      expect(await lotteryContract.getParticipantEntries(signers.alice.address)).to.equal(10n);
+      expect(await lotteryContract.getEntryCount()).to.equal(BigInt(ticketCount));
+      const batchesPerEntrant = Math.ceil(ticketCount / batchSize / entrants.length);
+      expect(await lotteryContract.getParticipantEntries(entrants[0].address)).to.equal(
+        BigInt(batchesPerEntrant * batchSize),
+      );
+
+      // The whole round reads back page by page, in entry order
+      const participants: string[] = [];
+      for (let offset = 0n; offset < BigInt(ticketCount); offset += 500n) {
+        const [page, total] = await lotteryContract.getEntries(1n, offset, 500n);
+        expect(total).to.equal(BigInt(ticketCount));
+        participants.push(...page.map((entry) => entry.participant));
+      }
+      expect(participants).to.deep.equal(
+        Array.from({ length: ticketCount }, (_, i) => entrants[Math.floor(i / batchSize) % entrants.length].address),
+      );
 
       // Should still draw correctly
       await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.not.be.reverted;
+      const [[winner], winnerCount] = await lotteryContract.getWinners(0n, 1n);
+      expect(winnerCount).to.equal(1n);
+      expect(participants).to.include(winner.winner);
     });
 
-    it("✅ should reset participant entries counter only for winners", async function () {
+    it("✅ should count participant entries and wins per round", async function () {
       const entryFee = await lotteryContract.getEntryFee();
 
       // Alice and Bob both enter
@@ -589,18 +1351,35 @@ describe("PrivateLottery", function () {
         .encrypt();
       await lotteryContract.connect(signers.bob).enterLottery(bobInput.handles[0], bobInput.inputProof, { value: entryFee });
 
-      const aliceEntriesBefore = await lotteryContract.getParticipantEntries(signers.alice.address);
-      const bobEntriesBefore = await lotteryContract.getParticipantEntries(signers.bob.address);
-
       // Draw winner
       await lotteryContract.connect(signers.deployer).drawWinner();
+      const winner = await lotteryContract.getLastWinner();
+      const loser = winner === signers.alice.address ? signers.bob.address : signers.alice.address;
+
+      // Round 1 keeps its entries and winner, round 2 starts without either
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.alice.address, 1n)).to.equal(1n);
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.bob.address, 1n)).to.equal(1n);
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.alice.address, 2n)).to.equal(0n);
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.bob.address, 2n)).to.equal(0n);
+      expect(await lotteryContract.hasParticipantWonInRound(winner, 1n)).to.be.true;
+      expect(await lotteryContract.hasParticipantWonInRound(loser, 1n)).to.be.false;
+      expect(await lotteryContract.hasParticipantWonInRound(winner, 2n)).to.be.false;
+
+      const nextInput = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(33)
+        .encrypt();
+      await lotteryContract
+        .connect(signers.alice)
+        .enterLottery(nextInput.handles[0], nextInput.inputProof, { value: entryFee });
 
-      // Entries should still be tracked across rounds
-      const aliceEntriesAfter = await lotteryContract.getParticipantEntries(signers.alice.address);
-      const bobEntriesAfter = await lotteryContract.getParticipantEntries(signers.bob.address);
-
-      expect(aliceEntriesAfter).to.equal(aliceEntriesBefore);
-      expect(bobEntriesAfter).to.equal(bobEntriesBefore);
+      // The totals add up the rounds
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.alice.address, 2n)).to.equal(1n);
+      expect(await lotteryContract.getParticipantEntriesInRound(signers.alice.address, 1n)).to.equal(1n);
+      expect(await lotteryContract.getParticipantEntries(signers.alice.address)).to.equal(2n);
+      expect(await lotteryContract.getParticipantEntries(signers.bob.address)).to.equal(1n);
+      expect(await lotteryContract.hasParticipantWon(winner)).to.be.true;
+      expect(await lotteryContract.hasParticipantWon(loser)).to.be.false;
     });
 
     it("✅ should handle multiple consecutive rounds", async function () {
@@ -629,59 +1408,702 @@ describe("PrivateLottery", function () {
     });
   });
 
-  describe("Prize Distribution", function () {
-    it("✅ should distribute exactly 80% to winner", async function () {
+  describe("Round Deadline", function () {
+    const duration = 3600n;
+
+    async function enterAs(signer: HardhatEthersSigner, number: number) {
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(number).encrypt();
+      return lotteryContract
+        .connect(signer)
+        .enterLottery(input.handles[0], input.inputProof, { value: await lotteryContract.getEntryFee() });
+    }
+
+    it("✅ should start without a deadline or minimum", async function () {
+      expect(await lotteryContract.roundDuration()).to.equal(0n);
+      expect(await lotteryContract.closesAt()).to.equal(0n);
+      expect(await lotteryContract.minEntries()).to.equal(0n);
+    });
+
+    it("✅ should schedule the current round when the duration is set", async function () {
+      const tx = lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await expect(tx).to.emit(lotteryContract, "RoundDurationChanged").withArgs(duration);
+
+      const closesAt = BigInt(await time.latest()) + duration;
+      await expect(tx).to.emit(lotteryContract, "RoundScheduled").withArgs(1n, closesAt);
+      expect(await lotteryContract.closesAt()).to.equal(closesAt);
+    });
+
+    it("✅ should accept entries until the last second before the deadline", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      const closesAt = await lotteryContract.closesAt();
+
+      await time.setNextBlockTimestamp(closesAt - 1n);
+      await expect(enterAs(signers.alice, 42)).to.not.be.reverted;
+    });
+
+    it("❌ should reject entries from the deadline on", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      const closesAt = await lotteryContract.closesAt();
+
+      await time.setNextBlockTimestamp(closesAt);
+      await expect(enterAs(signers.alice, 42)).to.be.revertedWith("Round closed");
+
+      await time.increase(duration);
+      await expect(enterAs(signers.bob, 7)).to.be.revertedWith("Round closed");
+    });
+
+    it("❌ should not draw before the deadline, even as owner", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await enterAs(signers.alice, 42);
+      await time.increase(duration - 10n);
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith("Round still open");
+      await expect(lotteryContract.connect(signers.bob).requestDraw()).to.be.revertedWith("Round still open");
+    });
+
+    it("✅ should let anyone draw once the deadline passes", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await enterAs(signers.alice, 42);
+      const closesAt = await lotteryContract.closesAt();
+
+      await time.setNextBlockTimestamp(closesAt);
+      await expect(lotteryContract.connect(signers.bob).drawWinner()).to.emit(lotteryContract, "WinnerDrawn");
+      expect(await lotteryContract.getLastWinner()).to.equal(signers.alice.address);
+    });
+
+    it("✅ should let anyone run a two-phase draw and open a new timed round", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await enterAs(signers.alice, 42);
+      await time.increase(duration);
+
+      await lotteryContract.connect(signers.charlie).requestDraw();
+      const decrypted = await decryptDraw();
+      const tx = await lotteryContract
+        .connect(signers.charlie)
+        .fulfillDraw(decrypted.requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+
+      const closesAt = BigInt(await time.latest()) + duration;
+      await expect(tx).to.emit(lotteryContract, "RoundScheduled").withArgs(2n, closesAt);
+      expect(await lotteryContract.closesAt()).to.equal(closesAt);
+      await expect(enterAs(signers.bob, 7)).to.not.be.reverted;
+    });
+
+    it("❌ should not draw a round below the minimum entry count", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setMinEntries(2n))
+        .to.emit(lotteryContract, "MinEntriesChanged")
+        .withArgs(2n);
+      await enterAs(signers.alice, 42);
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith("Not enough entries");
+
+      await enterAs(signers.bob, 7);
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.not.be.reverted;
+    });
+
+    it("✅ should extend a closed round that lacks entries", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await lotteryContract.connect(signers.deployer).setMinEntries(2n);
+      await enterAs(signers.alice, 42);
+
+      await expect(lotteryContract.connect(signers.bob).extendRound()).to.be.revertedWith("Round still open");
+      await time.increase(duration);
+      await expect(lotteryContract.connect(signers.bob).drawWinner()).to.be.revertedWith("Not enough entries");
+
+      const tx = await lotteryContract.connect(signers.bob).extendRound();
+      await expect(tx)
+        .to.emit(lotteryContract, "RoundScheduled")
+        .withArgs(1n, BigInt(await time.latest()) + duration);
+
+      // The round keeps its entries and accepts new ones
+      await enterAs(signers.bob, 7);
+      expect(await lotteryContract.getEntryCount()).to.equal(2n);
+    });
+
+    it("❌ should not extend a closed round that can be drawn", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await enterAs(signers.alice, 42);
+      await time.increase(duration);
+
+      await expect(lotteryContract.connect(signers.bob).extendRound()).to.be.revertedWith("Round can be drawn");
+    });
+
+    it("✅ should remove the deadline when the duration is set to zero", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(duration);
+      await time.increase(duration);
+      await lotteryContract.connect(signers.deployer).setRoundDuration(0n);
+
+      expect(await lotteryContract.closesAt()).to.equal(0n);
+      await expect(enterAs(signers.alice, 42)).to.not.be.reverted;
+      await expect(lotteryContract.connect(signers.alice).drawWinner()).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
+
+    it("❌ should not allow non-owner to change the schedule", async function () {
+      await expect(lotteryContract.connect(signers.alice).setRoundDuration(duration)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+      await expect(lotteryContract.connect(signers.alice).setMinEntries(2n)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
+  });
+
+  describe("Refunds", function () {
+    async function enterAs(signer: HardhatEthersSigner, numbers: number[], value?: bigint) {
+      const input = fhevm.createEncryptedInput(lotteryContractAddress, signer.address);
+      numbers.forEach((number) => input.add32(number));
+      const encrypted = await input.encrypt();
+      const fee = value ?? (await lotteryContract.getEntryFee()) * BigInt(numbers.length);
+      await lotteryContract.connect(signer).enterLotteryBatch(encrypted.handles, encrypted.inputProof, { value: fee });
+    }
+
+    it("✅ should record what each address paid in the round", async function () {
       const entryFee = await lotteryContract.getEntryFee();
+      await enterAs(signers.alice, [1, 2, 3]);
+      await enterAs(signers.bob, [4], entryFee * 2n);
 
-      // Add single entry to ensure we know the winner
-      const aliceInput = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(42)
-        .encrypt();
+      expect(await lotteryContract.paidInRound(1n, signers.alice.address)).to.equal(entryFee * 3n);
+      expect(await lotteryContract.paidInRound(1n, signers.bob.address)).to.equal(entryFee * 2n);
+      expect(await lotteryContract.totalPaidInRound(1n)).to.equal(entryFee * 5n);
+    });
+
+    it("✅ should cancel the round and start the next one", async function () {
+      await enterAs(signers.alice, [1, 2]);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await expect(lotteryContract.connect(signers.deployer).cancelRound())
+        .to.emit(lotteryContract, "RoundCancelled")
+        .withArgs(1n, prizePool, 0n)
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+
+      expect(await lotteryContract.roundCancelled(1n)).to.be.true;
+      expect(await lotteryContract.getEntryCount()).to.equal(0n);
+      expect(await lotteryContract.getPrizePool()).to.equal(0n);
+      expect(await lotteryContract.totalPendingRefunds()).to.equal(prizePool);
+    });
+
+    it("✅ should refund exactly the prize pool", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enterAs(signers.alice, [1, 2, 3]);
+      await enterAs(signers.bob, [4], entryFee + 1n);
+      await enterAs(signers.charlie, [5, 6]);
+      await enterAs(signers.alice, [7]);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await lotteryContract.connect(signers.deployer).cancelRound();
+
+      let refunded = 0n;
+      for (const signer of [signers.alice, signers.bob, signers.charlie]) {
+        const paid = await lotteryContract.paidInRound(1n, signer.address);
+        await expect(lotteryContract.connect(signer).claimRefund(1n))
+          .to.emit(lotteryContract, "RefundClaimed")
+          .withArgs(1n, signer.address, paid);
+        refunded += paid;
+      }
+
+      expect(refunded).to.equal(prizePool);
+      expect(await lotteryContract.totalPendingRefunds()).to.equal(0n);
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(0n);
+    });
+
+    it("❌ should refund each entrant only once, and only for cancelled rounds", async function () {
+      await enterAs(signers.alice, [1]);
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.be.revertedWith("Round not cancelled");
+
+      await lotteryContract.connect(signers.deployer).cancelRound();
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.changeEtherBalance(
+        signers.alice,
+        await lotteryContract.getEntryFee(),
+      );
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.be.revertedWith("Nothing to refund");
+      await expect(lotteryContract.connect(signers.bob).claimRefund(1n)).to.be.revertedWith("Nothing to refund");
+    });
+
+    it("✅ should roll donations and rollovers over to the next round", async function () {
+      const donation = ethers.parseEther("0.5");
+      await signers.charlie.sendTransaction({ to: lotteryContractAddress, value: donation });
+      await enterAs(signers.alice, [1]);
+      const paid = await lotteryContract.totalPaidInRound(1n);
+
+      await expect(lotteryContract.connect(signers.deployer).cancelRound())
+        .to.emit(lotteryContract, "RoundCancelled")
+        .withArgs(1n, paid, donation);
+      expect(await lotteryContract.getPrizePool()).to.equal(donation);
+    });
+
+    it("✅ should cancel a round with a pending draw that timed out", async function () {
+      await enterAs(signers.alice, [1]);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await time.increase(await lotteryContract.DRAW_REQUEST_TIMEOUT());
+      await lotteryContract.connect(signers.deployer).cancelRound();
+
+      expect(await lotteryContract.drawPending()).to.be.false;
+      await expect(lotteryContract.getDrawHandles()).to.be.revertedWith("No draw in progress");
+      await expect(enterAs(signers.bob, [2])).to.not.be.reverted;
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.not.be.reverted;
+    });
+
+    it("❌ should not let the owner cancel a pending draw before it timed out", async function () {
+      await enterAs(signers.alice, [1]);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      // The handles of the draw can already be decrypted, so cancelling now would drop a known result
+      await expect(lotteryContract.connect(signers.deployer).cancelRound()).to.be.revertedWith(
+        "Draw request not timed out",
+      );
+      expect(await lotteryContract.drawPending()).to.be.true;
+    });
+
+    it("❌ should only let the owner cancel a round that can still be drawn", async function () {
+      await enterAs(signers.alice, [1]);
+
+      await expect(lotteryContract.connect(signers.alice).cancelRound()).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
+
+    it("✅ should let anyone cancel a round that closed below the minimum", async function () {
+      await lotteryContract.connect(signers.deployer).setRoundDuration(3600n);
+      await lotteryContract.connect(signers.deployer).setMinEntries(3n);
+      await enterAs(signers.alice, [1, 2]);
+
+      await expect(lotteryContract.connect(signers.bob).cancelRound()).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+      await time.increase(3600n);
+      await expect(lotteryContract.connect(signers.bob).cancelRound()).to.emit(lotteryContract, "RoundCancelled");
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.not.be.reverted;
+    });
+
+    it("✅ should keep pending refunds out of emergency withdrawals", async function () {
+      await enterAs(signers.alice, [1]);
+      await lotteryContract.connect(signers.deployer).cancelRound();
+      await enterAs(signers.bob, [2]);
+      const reserved = await lotteryContract.totalPendingRefunds();
+
+      await lotteryContract.connect(signers.deployer).emergencyWithdraw();
+
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(reserved);
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.not.be.reverted;
+    });
+
+    it("✅ should end a drained round so that cancelling it books no refunds", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      await enterAs(signers.alice, [1]);
+
+      await expect(lotteryContract.connect(signers.deployer).emergencyWithdraw())
+        .to.emit(lotteryContract, "EmergencyWithdrawal")
+        .withArgs(signers.deployer.address, entryFee, 1n, entryFee)
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+      expect(await lotteryContract.getPrizePool()).to.equal(0n);
+
+      // Only what was paid after the withdrawal is refunded
+      await enterAs(signers.bob, [2]);
+      await lotteryContract.connect(signers.deployer).cancelRound();
+      expect(await lotteryContract.totalPendingRefunds()).to.equal(entryFee);
+      await expect(lotteryContract.connect(signers.alice).claimRefund(1n)).to.be.revertedWith("Round not cancelled");
+      await expect(lotteryContract.connect(signers.bob).claimRefund(2n)).to.changeEtherBalance(signers.bob, entryFee);
+      await expect(lotteryContract.connect(signers.deployer).emergencyWithdraw()).to.not.be.reverted;
+    });
+  });
+
+  describe("Prize Claims", function () {
+    async function enterAs(signer: HardhatEthersSigner, number: number) {
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(number).encrypt();
       await lotteryContract
-        .connect(signers.alice)
-        .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+        .connect(signer)
+        .enterLottery(input.handles[0], input.inputProof, { value: await lotteryContract.getEntryFee() });
+    }
 
+    it("✅ should credit the prize and fee instead of sending them", async function () {
+      await enterAs(signers.alice, 42);
       const prizePool = await lotteryContract.getPrizePool();
-      const expectedPrize = (prizePool * 80n) / 100n;
 
-      const aliceBalanceBefore = await ethers.provider.getBalance(signers.alice.address);
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.changeEtherBalances(
+        [signers.alice, lotteryContractAddress],
+        [0n, 0n],
+      );
 
+      expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal((prizePool * 80n) / 100n);
+      expect(await lotteryContract.totalPendingWithdrawals()).to.equal(prizePool);
+    });
+
+    it("✅ should pay out the credited amount once", async function () {
+      await enterAs(signers.alice, 42);
       await lotteryContract.connect(signers.deployer).drawWinner();
+      const credited = await lotteryContract.pendingWithdrawals(signers.alice.address);
 
-      const aliceBalanceAfter = await ethers.provider.getBalance(signers.alice.address);
+      await expect(lotteryContract.connect(signers.alice).claimPrize())
+        .to.emit(lotteryContract, "PrizeClaimed")
+        .withArgs(signers.alice.address, credited);
 
-      // Alice should receive exactly 80% of prize pool
-      expect(aliceBalanceAfter - aliceBalanceBefore).to.equal(expectedPrize);
+      expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal(0n);
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.be.revertedWith("Nothing to claim");
     });
 
-    it("✅ should distribute 20% to owner", async function () {
+    it("✅ should reset the round even if the winner cannot receive ETH", async function () {
+      const receiver = await (await ethers.getContractFactory("RevertingReceiver")).deploy();
+      const receiverAddress = await receiver.getAddress();
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, receiverAddress).add32(42).encrypt();
+      await receiver.enter(lotteryContractAddress, input.handles[0], input.inputProof, {
+        value: await lotteryContract.getEntryFee(),
+      });
+
+      await expect(lotteryContract.connect(signers.deployer).drawWinner())
+        .to.emit(lotteryContract, "WinnerDrawn")
+        .and.to.emit(lotteryContract, "LotteryReset")
+        .withArgs(2n);
+      expect(await lotteryContract.getLastWinner()).to.equal(receiverAddress);
+
+      // Only the receiver's own claim fails, and its prize stays credited
+      await expect(receiver.claim(lotteryContractAddress)).to.be.revertedWith("Prize transfer failed");
+      expect(await lotteryContract.pendingWithdrawals(receiverAddress)).to.be.greaterThan(0n);
+
+      await enterAs(signers.alice, 7);
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.not.be.reverted;
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.not.be.reverted;
+    });
+
+    it("✅ should keep unclaimed prizes out of emergency withdrawals", async function () {
+      await enterAs(signers.alice, 42);
+      await lotteryContract.connect(signers.deployer).drawWinner();
+      await enterAs(signers.bob, 7);
+      const reserved = await lotteryContract.totalPendingWithdrawals();
+
+      await lotteryContract.connect(signers.deployer).emergencyWithdraw();
+
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(reserved);
+      await expect(lotteryContract.connect(signers.alice).claimPrize()).to.not.be.reverted;
+    });
+
+    it("✅ should only credit prizes backed by the balance after a withdrawal", async function () {
       const entryFee = await lotteryContract.getEntryFee();
+      await enterAs(signers.alice, 42);
+      await lotteryContract.connect(signers.deployer).emergencyWithdraw();
 
-      // Add entry
-      const aliceInput = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
-        .add32(55)
-        .encrypt();
+      await expect(lotteryContract.connect(signers.deployer).drawWinner()).to.be.revertedWith("No entries in lottery");
+
+      await enterAs(signers.bob, 7);
+      await lotteryContract.connect(signers.deployer).drawWinner();
+      expect(await lotteryContract.totalPendingWithdrawals()).to.equal(entryFee);
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(entryFee);
+      await expect(lotteryContract.connect(signers.bob).claimPrize()).to.not.be.reverted;
+      await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.not.be.reverted;
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.equal(0n);
+    });
+  });
+
+  describe("Prize Split", function () {
+    async function enterAs(signer: HardhatEthersSigner, number: number) {
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(number).encrypt();
       await lotteryContract
-        .connect(signers.alice)
-        .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+        .connect(signer)
+        .enterLottery(input.handles[0], input.inputProof, { value: await lotteryContract.getEntryFee() });
+    }
+
+    it("✅ should start with an 80/20 split paid to the owner", async function () {
+      expect(await lotteryContract.winnerBps()).to.equal(8_000n);
+      expect(await lotteryContract.feeBps()).to.equal(2_000n);
+      expect(await lotteryContract.feeRecipient()).to.equal(signers.deployer.address);
+    });
+
+    it("✅ should update the split and emit PrizeSplitChanged", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setPrizeSplit(7_000n, 3_000n))
+        .to.emit(lotteryContract, "PrizeSplitChanged")
+        .withArgs(7_000n, 3_000n);
+
+      expect(await lotteryContract.winnerBps()).to.equal(7_000n);
+      expect(await lotteryContract.feeBps()).to.equal(3_000n);
+    });
+
+    it("❌ should reject splits that do not add up to 10000 bps", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setPrizeSplit(8_000n, 1_000n)).to.be.revertedWith(
+        "Split must add up to 10000 bps",
+      );
+      await expect(lotteryContract.connect(signers.deployer).setPrizeSplit(9_000n, 2_000n)).to.be.revertedWith(
+        "Split must add up to 10000 bps",
+      );
+      await expect(lotteryContract.connect(signers.deployer).setPrizeSplit(0n, 10_000n)).to.be.revertedWith(
+        "Winner share cannot be zero",
+      );
+    });
+
+    it("❌ should not allow non-owner to change the split or fee recipient", async function () {
+      await expect(lotteryContract.connect(signers.alice).setPrizeSplit(5_000n, 5_000n)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+      await expect(lotteryContract.connect(signers.alice).setFeeRecipient(signers.alice.address)).to.be.revertedWith(
+        "Only owner can call this function",
+      );
+    });
 
+    it("❌ should not change the split while a draw is pending", async function () {
+      await enterAs(signers.alice, 42);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(lotteryContract.connect(signers.deployer).setPrizeSplit(5_000n, 5_000n)).to.be.revertedWith(
+        "Draw in progress",
+      );
+    });
+
+    it("✅ should credit the fee to the fee recipient", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setFeeRecipient(signers.charlie.address))
+        .to.emit(lotteryContract, "FeeRecipientChanged")
+        .withArgs(signers.charlie.address);
+
+      await enterAs(signers.alice, 42);
       const prizePool = await lotteryContract.getPrizePool();
-      const expectedOwnerFee = (prizePool * 20n) / 100n;
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      expect(await lotteryContract.pendingWithdrawals(signers.charlie.address)).to.equal((prizePool * 20n) / 100n);
+      expect(await lotteryContract.pendingWithdrawals(signers.deployer.address)).to.equal(0n);
+    });
 
-      const ownerBalanceBefore = await ethers.provider.getBalance(signers.deployer.address);
+    it("❌ should reject the zero address as fee recipient", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setFeeRecipient(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid fee recipient",
+      );
+    });
 
-      const tx = await lotteryContract.connect(signers.deployer).drawWinner();
-      const receipt = await tx.wait();
-      const gasUsed = receipt!.gasUsed * receipt!.gasPrice;
+    it("✅ should apply the split to encrypted match draws", async function () {
+      await lotteryContract.connect(signers.deployer).setPrizeSplit(6_000n, 4_000n);
+      await lotteryContract.connect(signers.deployer).setDrawMode(1);
+      const entryFee = await lotteryContract.getEntryFee();
+
+      // Alice and Bob cover 1-100 between them, so exactly one entry matches
+      for (const [signer, first] of [
+        [signers.alice, 1],
+        [signers.bob, 51],
+      ] as const) {
+        const input = fhevm.createEncryptedInput(lotteryContractAddress, signer.address);
+        for (let n = first; n < first + 50; n++) input.add32(n);
+        const encrypted = await input.encrypt();
+        await lotteryContract
+          .connect(signer)
+          .enterLotteryBatch(encrypted.handles, encrypted.inputProof, { value: entryFee * 50n });
+      }
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      await lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+
+      const [winner] = await lotteryContract.getAllWinners();
+      expect(winner.prize).to.equal((prizePool * 6_000n) / 10_000n);
+      expect(await lotteryContract.pendingWithdrawals(signers.deployer.address)).to.equal(
+        (prizePool * 4_000n) / 10_000n,
+      );
+    });
+  });
+
+  describe("Prize Tiers", function () {
+    const numbers = { alice: 11, bob: 22, charlie: 33 };
+
+    async function enterAs(signer: HardhatEthersSigner, number: number) {
+      const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(number).encrypt();
+      await lotteryContract
+        .connect(signer)
+        .enterLottery(input.handles[0], input.inputProof, { value: await lotteryContract.getEntryFee() });
+    }
+
+    async function draw() {
+      await lotteryContract.connect(signers.deployer).requestDraw();
+      const decrypted = await decryptDraw();
+      return lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+    }
+
+    it("✅ should start with a single tier taking the whole winners' share", async function () {
+      expect(await lotteryContract.getPrizeTiers()).to.deep.equal([10_000n]);
+    });
+
+    it("✅ should update the prize table and emit PrizeTiersChanged", async function () {
+      await expect(lotteryContract.connect(signers.deployer).setPrizeTiers([6_000n, 2_500n, 1_500n]))
+        .to.emit(lotteryContract, "PrizeTiersChanged")
+        .withArgs([6_000n, 2_500n, 1_500n]);
 
-      const ownerBalanceAfter = await ethers.provider.getBalance(signers.deployer.address);
+      expect(await lotteryContract.getPrizeTiers()).to.deep.equal([6_000n, 2_500n, 1_500n]);
+    });
 
-      // Owner should receive 20% minus gas
-      expect(ownerBalanceAfter - ownerBalanceBefore + gasUsed).to.equal(expectedOwnerFee);
+    it("❌ should reject invalid prize tables", async function () {
+      const owner = lotteryContract.connect(signers.deployer);
+      await expect(owner.setPrizeTiers([])).to.be.revertedWith("Invalid number of tiers");
+      await expect(owner.setPrizeTiers(Array(11).fill(1_000n))).to.be.revertedWith("Invalid number of tiers");
+      await expect(owner.setPrizeTiers([6_000n, 4_000n, 0n])).to.be.revertedWith("Tier share cannot be zero");
+      await expect(owner.setPrizeTiers([6_000n, 2_500n])).to.be.revertedWith("Tiers must add up to 10000 bps");
+      await expect(lotteryContract.connect(signers.alice).setPrizeTiers([10_000n])).to.be.revertedWith(
+        "Only owner can call this function",
+      );
     });
 
+    it("✅ should pay every tier to a distinct winner", async function () {
+      await lotteryContract.connect(signers.deployer).setPrizeTiers([6_000n, 2_500n, 1_500n]);
+      for (const name of ["alice", "bob", "charlie"] as const) {
+        await enterAs(signers[name], numbers[name]);
+      }
+      // A second ticket must not let Alice win two tiers
+      await enterAs(signers.alice, 44);
+      const prizePool = await lotteryContract.getPrizePool();
+      const winnersShare = (prizePool * 8_000n) / 10_000n;
+
+      const tx = await draw();
+
+      const winners = await lotteryContract.getAllWinners();
+      expect(winners.map((winner) => winner.tier)).to.deep.equal([0n, 1n, 2n]);
+      expect(new Set(winners.map((winner) => winner.winner)).size).to.equal(3);
+      expect(winners.map((winner) => winner.prize)).to.deep.equal([
+        (winnersShare * 6_000n) / 10_000n,
+        (winnersShare * 2_500n) / 10_000n,
+        (winnersShare * 1_500n) / 10_000n,
+      ]);
+      for (const winner of winners) {
+        await expect(tx)
+          .to.emit(lotteryContract, "WinnerDrawn")
+          .withArgs(winner.winner, winner.prize, winner.winningNumber, 1n, winner.tier);
+        expect(await lotteryContract.pendingWithdrawals(winner.winner)).to.equal(winner.prize);
+      }
+      expect(await lotteryContract.getPrizePool()).to.equal(0n);
+    });
+
+    it("✅ should record the real number of each tier's entry", async function () {
+      await lotteryContract.connect(signers.deployer).setPrizeTiers([5_000n, 5_000n]);
+      await enterAs(signers.alice, numbers.alice);
+      await enterAs(signers.bob, numbers.bob);
+
+      await expect(lotteryContract.connect(signers.deployer).requestDraw())
+        .to.emit(lotteryContract, "DrawRequested")
+        .withArgs(1n, 1n, (handles: string[]) => handles.length === 2);
+      const decrypted = await decryptDraw();
+      await lotteryContract.fulfillDraw(
+        decrypted.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof,
+      );
+
+      for (const winner of await lotteryContract.getAllWinners()) {
+        const name = winner.winner === signers.alice.address ? "alice" : "bob";
+        expect(winner.winningNumber).to.equal(BigInt(numbers[name]));
+      }
+    });
+
+    it("✅ should roll tiers without a distinct participant over to the next round", async function () {
+      await lotteryContract.connect(signers.deployer).setPrizeTiers([6_000n, 2_500n, 1_500n]);
+      await enterAs(signers.alice, numbers.alice);
+      await enterAs(signers.alice, 44);
+      await enterAs(signers.bob, numbers.bob);
+      const prizePool = await lotteryContract.getPrizePool();
+
+      await draw();
+
+      const winners = await lotteryContract.getAllWinners();
+      expect(winners.length).to.equal(2);
+      const paid = winners.reduce((sum, winner) => sum + winner.prize, 0n);
+      const fee = await lotteryContract.pendingWithdrawals(signers.deployer.address);
+      expect(fee).to.equal((prizePool * 2_000n) / 10_000n);
+      expect(await lotteryContract.getPrizePool()).to.equal(prizePool - paid - fee);
+      expect(await lotteryContract.getCurrentRound()).to.equal(2n);
+    });
+
+    it("✅ should draw tiers in a single transaction with drawWinner", async function () {
+      await lotteryContract.connect(signers.deployer).setPrizeTiers([7_000n, 3_000n]);
+      await enterAs(signers.alice, numbers.alice);
+      await enterAs(signers.bob, numbers.bob);
+
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      const winners = await lotteryContract.getAllWinners();
+      expect(winners.map((winner) => winner.tier)).to.deep.equal([0n, 1n]);
+      expect(winners.map((winner) => winner.winner)).to.have.members([signers.alice.address, signers.bob.address]);
+    });
+
+    it("❌ should not change the prize table while a draw is pending", async function () {
+      await enterAs(signers.alice, numbers.alice);
+      await lotteryContract.connect(signers.deployer).requestDraw();
+
+      await expect(lotteryContract.connect(signers.deployer).setPrizeTiers([5_000n, 5_000n])).to.be.revertedWith(
+        "Draw in progress",
+      );
+    });
+  });
+
+  describe("Prize Distribution", function () {
+    // [winnerBps, feeBps]; the first one is the default split
+    const splits: [bigint, bigint][] = [
+      [8_000n, 2_000n],
+      [5_000n, 5_000n],
+      [9_950n, 50n],
+      [10_000n, 0n],
+    ];
+
+    for (const [winnerBps, feeBps] of splits) {
+      const split = `${Number(winnerBps) / 100}/${Number(feeBps) / 100} split`;
+
+      it(`✅ should distribute exactly ${Number(winnerBps) / 100}% to winner with a ${split}`, async function () {
+        await lotteryContract.connect(signers.deployer).setPrizeSplit(winnerBps, feeBps);
+        const entryFee = await lotteryContract.getEntryFee();
+
+        // Add single entry to ensure we know the winner
+        const aliceInput = await fhevm
+          .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+          .add32(42)
+          .encrypt();
+        await lotteryContract
+          .connect(signers.alice)
+          .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+
+        const prizePool = await lotteryContract.getPrizePool();
+        const expectedPrize = (prizePool * winnerBps) / 10_000n;
+
+        await lotteryContract.connect(signers.deployer).drawWinner();
+
+        // Alice should be credited exactly her share of the prize pool and receive it when claiming
+        expect(await lotteryContract.pendingWithdrawals(signers.alice.address)).to.equal(expectedPrize);
+        await expect(lotteryContract.connect(signers.alice).claimPrize()).to.changeEtherBalance(
+          signers.alice,
+          expectedPrize,
+        );
+      });
+
+      it(`✅ should distribute ${Number(feeBps) / 100}% to owner with a ${split}`, async function () {
+        await lotteryContract.connect(signers.deployer).setPrizeSplit(winnerBps, feeBps);
+        const entryFee = await lotteryContract.getEntryFee();
+
+        // Add entry
+        const aliceInput = await fhevm
+          .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+          .add32(55)
+          .encrypt();
+        await lotteryContract
+          .connect(signers.alice)
+          .enterLottery(aliceInput.handles[0], aliceInput.inputProof, { value: entryFee });
+
+        const prizePool = await lotteryContract.getPrizePool();
+        const expectedOwnerFee = (prizePool * feeBps) / 10_000n;
+
+        await lotteryContract.connect(signers.deployer).drawWinner();
+
+        // Owner should be credited the fee and receive it when claiming
+        expect(await lotteryContract.pendingWithdrawals(signers.deployer.address)).to.equal(expectedOwnerFee);
+        if (expectedOwnerFee > 0n) {
+          await expect(lotteryContract.connect(signers.deployer).claimPrize()).to.changeEtherBalance(
+            signers.deployer,
+            expectedOwnerFee,
+          );
+        }
+      });
+    }
+
     it("✅ should handle prize distribution with large prize pool", async function () {
       const entryFee = await lotteryContract.getEntryFee();
 
@@ -789,6 +2211,41 @@ describe("PrivateLottery", function () {
       expect(winners.length).to.equal(2);
     });
 
+    it("✅ should group winners by round and tier", async function () {
+      const entryFee = await lotteryContract.getEntryFee();
+      const enter = async (signer: HardhatEthersSigner, number: number) => {
+        const input = await fhevm.createEncryptedInput(lotteryContractAddress, signer.address).add32(number).encrypt();
+        await lotteryContract.connect(signer).enterLottery(input.handles[0], input.inputProof, { value: entryFee });
+      };
+
+      // Round 1: a single first prize
+      await enter(signers.alice, 10);
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      // Round 2: three tiers between three participants
+      await lotteryContract.connect(signers.deployer).setPrizeTiers([6_000n, 2_500n, 1_500n]);
+      await enter(signers.alice, 20);
+      await enter(signers.bob, 30);
+      await enter(signers.charlie, 40);
+      await lotteryContract.connect(signers.deployer).drawWinner();
+
+      const rounds = new Map<bigint, Map<bigint, string[]>>();
+      for (const winner of await lotteryContract.getAllWinners()) {
+        const tiers = rounds.get(winner.round) ?? new Map<bigint, string[]>();
+        tiers.set(winner.tier, [...(tiers.get(winner.tier) ?? []), winner.winner]);
+        rounds.set(winner.round, tiers);
+      }
+
+      expect([...rounds.keys()]).to.deep.equal([1n, 2n]);
+      expect([...rounds.get(1n)!.entries()]).to.deep.equal([[0n, [signers.alice.address]]]);
+      expect([...rounds.get(2n)!.keys()]).to.deep.equal([0n, 1n, 2n]);
+      expect([...rounds.get(2n)!.values()].flat()).to.have.members([
+        signers.alice.address,
+        signers.bob.address,
+        signers.charlie.address,
+      ]);
+    });
+
     it("✅ should handle fee changes between rounds", async function () {
       const entryFee = await lotteryContract.getEntryFee();
 
@@ -808,10 +2265,7 @@ describe("PrivateLottery", function () {
       await lotteryContract.connect(signers.deployer).setEntryFee(newFee);
 
       // Enter with new fee
-      const input2 = await fhevm
-        .createEncryptedInput(lotteryContractAddress, signers.bob.address)
-        .add32(25)
-        .encrypt();
+      const input2 = await fhevm.createEncryptedInput(lotteryContractAddress, signers.bob.address).add32(25).encrypt();
       await lotteryContract.connect(signers.bob).enterLottery(input2.handles[0], input2.inputProof, { value: newFee });
 
       expect(await lotteryContract.getEntryCount()).to.equal(1n);
@@ -0,0 +1,221 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import { ethers } from "hardhat";
+import { AnonymousLottery, FHEAnonymousLottery } from "../../types";
+import { expect } from "chai";
+
+export type Picks = [boolean, boolean, boolean];
+
+export type AnonymousLotteryContract = AnonymousLottery | FHEAnonymousLottery;
+
+// How the shared suite drives one AnonymousLottery variant; picks are plaintext here and the
+// variant encrypts them if it takes ciphertexts
+export interface AnonymousLotteryVariant<T extends AnonymousLotteryContract> {
+  deploy(deployer: HardhatEthersSigner): Promise<T>;
+  enter(lottery: T, signer: HardhatEthersSigner, picks: Picks, value: bigint): Promise<ContractTransactionResponse>;
+  // Draws the current round as signer, returning the transaction that settles it
+  draw(lottery: T, signer: HardhatEthersSigner): Promise<ContractTransactionResponse>;
+}
+
+// Every combination of three picks, so that any winning combination has a matching ticket
+export const ALL_PICKS: Picks[] = [0, 1, 2, 3, 4, 5, 6, 7].map((combination) => [
+  (combination & 4) !== 0,
+  (combination & 2) !== 0,
+  (combination & 1) !== 0,
+]);
+
+// Behaviour both variants must share: entries, fees, the prize split, rounds and owner functions
+export function shouldBehaveLikeAnonymousLottery<T extends AnonymousLotteryContract>(
+  variant: AnonymousLotteryVariant<T>,
+) {
+  describe("Shared Behaviour", function () {
+    let deployer: HardhatEthersSigner;
+    let entrants: HardhatEthersSigner[];
+    let lottery: T;
+    let entryFee: bigint;
+
+    before(async function () {
+      [deployer, ...entrants] = await ethers.getSigners();
+      entrants = entrants.slice(0, 3);
+    });
+
+    beforeEach(async function () {
+      lottery = await variant.deploy(deployer);
+      entryFee = await lottery.getEntryFee();
+    });
+
+    // Spreads the eight combinations over the entrants, one ticket each
+    async function enterAllPicks() {
+      for (let i = 0; i < ALL_PICKS.length; i++) {
+        await variant.enter(lottery, entrants[i % entrants.length], ALL_PICKS[i], entryFee);
+      }
+    }
+
+    describe("Deployment", function () {
+      it("✅ should start an active first round owned by the deployer", async function () {
+        expect(await lottery.owner()).to.equal(deployer.address);
+        expect(await lottery.isLotteryActive()).to.be.true;
+        expect(await lottery.getEntryFee()).to.equal(ethers.parseEther("0.00001"));
+        expect(await lottery.getCurrentRound()).to.equal(1n);
+      });
+
+      it("❌ should have no winners yet", async function () {
+        expect(await lottery.getAllWinners()).to.deep.equal([]);
+        await expect(lottery.getLastWinner()).to.be.revertedWith("No winners yet");
+        await expect(lottery.getWinningNumbers()).to.be.revertedWith("No winners yet");
+      });
+    });
+
+    describe("Entering Lottery", function () {
+      it("✅ should enter one ticket per entry fee paid", async function () {
+        const [alice] = entrants;
+
+        await expect(variant.enter(lottery, alice, [true, false, true], entryFee * 3n))
+          .to.emit(lottery, "LotteryEntered")
+          .withArgs(alice.address, 3n, 3n, 1n);
+
+        expect(await lottery.getEntryCount()).to.equal(3n);
+        expect(await lottery.getParticipants()).to.deep.equal([alice.address, alice.address, alice.address]);
+        expect(await lottery.getPrizePool()).to.equal(entryFee * 3n);
+        expect(await lottery.getParticipantHistory(alice.address)).to.equal(3n);
+      });
+
+      it("✅ should count the entries of every participant", async function () {
+        const [alice, bob] = entrants;
+        await variant.enter(lottery, alice, [true, true, true], entryFee);
+
+        await expect(variant.enter(lottery, bob, [false, false, false], entryFee * 2n))
+          .to.emit(lottery, "LotteryEntered")
+          .withArgs(bob.address, 2n, 3n, 1n);
+
+        expect(await lottery.getParticipants()).to.deep.equal([alice.address, bob.address, bob.address]);
+      });
+
+      it("❌ should reject an entry below the entry fee", async function () {
+        await expect(variant.enter(lottery, entrants[0], [true, true, true], entryFee - 1n)).to.be.revertedWith(
+          "Insufficient entry fee",
+        );
+      });
+
+      it("❌ should reject more than 10 tickets at once", async function () {
+        await expect(variant.enter(lottery, entrants[0], [true, true, true], entryFee * 11n)).to.be.revertedWith(
+          "Invalid ticket count",
+        );
+      });
+
+      it("❌ should reject entries while the lottery is inactive", async function () {
+        await lottery.connect(deployer).setLotteryActive(false);
+
+        await expect(variant.enter(lottery, entrants[0], [true, true, true], entryFee)).to.be.revertedWith(
+          "Lottery is not active",
+        );
+      });
+    });
+
+    describe("Drawing Winner", function () {
+      it("✅ should award 80% of the pool to one entrant", async function () {
+        await enterAllPicks();
+        const prizePool = await lottery.getPrizePool();
+        const prize = (prizePool * 80n) / 100n;
+
+        const tx = await variant.draw(lottery, deployer);
+        await expect(tx).to.emit(lottery, "WinnerDrawn").and.to.emit(lottery, "LotteryReset").withArgs(2n);
+
+        const winners = await lottery.getAllWinners();
+        expect(winners.length).to.equal(1);
+        const winner = winners[0].winner;
+        expect(entrants.map((entrant) => entrant.address)).to.include(winner);
+        expect(winners[0].prize).to.equal(prize);
+
+        expect(await lottery.getLastWinner()).to.equal(winner);
+        expect(await lottery.hasParticipantWon(winner)).to.be.true;
+      });
+
+      it("✅ should start the next round empty and keep the participant history", async function () {
+        await enterAllPicks();
+        await variant.draw(lottery, deployer);
+
+        expect(await lottery.getCurrentRound()).to.equal(2n);
+        expect(await lottery.getEntryCount()).to.equal(0n);
+        expect(await lottery.getPrizePool()).to.equal(0n);
+        expect(await lottery.getParticipantHistory(entrants[0].address)).to.equal(3n);
+
+        await expect(variant.enter(lottery, entrants[0], [true, true, true], entryFee))
+          .to.emit(lottery, "LotteryEntered")
+          .withArgs(entrants[0].address, 1n, 1n, 2n);
+      });
+
+      it("❌ should only let the owner draw", async function () {
+        await enterAllPicks();
+
+        await expect(variant.draw(lottery, entrants[0])).to.be.revertedWith("Only owner can call this function");
+      });
+
+      it("❌ should not draw a round without entries", async function () {
+        await expect(variant.draw(lottery, deployer)).to.be.revertedWith("No entries in lottery");
+      });
+    });
+
+    describe("Paged Views", function () {
+      it("✅ should page through the entries of the current round and every winner", async function () {
+        await enterAllPicks();
+
+        const [page, total] = await lottery.getEntries(1n, 6n, 5n);
+        expect(total).to.equal(8n);
+        expect(page.map((entry) => entry.participant)).to.deep.equal([entrants[0].address, entrants[1].address]);
+
+        await variant.draw(lottery, deployer);
+        const [winners, winnerCount] = await lottery.getWinners(0n, 5n);
+        expect(winnerCount).to.equal(1n);
+        expect(winners.map((winner) => winner.winner)).to.deep.equal([await lottery.getLastWinner()]);
+        expect(await lottery.getEntries(2n, 0n, 5n)).to.deep.equal([[], 0n]);
+      });
+
+      it("❌ should not page through the entries of past rounds", async function () {
+        await enterAllPicks();
+        await variant.draw(lottery, deployer);
+
+        await expect(lottery.getEntries(1n, 0n, 5n)).to.be.revertedWith("Only the current round keeps its entries");
+      });
+    });
+
+    describe("Owner Functions", function () {
+      it("✅ should update the entry fee and active status", async function () {
+        await lottery.connect(deployer).setEntryFee(ethers.parseEther("0.001"));
+        await lottery.connect(deployer).setLotteryActive(false);
+
+        expect(await lottery.getEntryFee()).to.equal(ethers.parseEther("0.001"));
+        expect(await lottery.isLotteryActive()).to.be.false;
+      });
+
+      it("✅ should add direct donations to the prize pool", async function () {
+        const donation = ethers.parseEther("1");
+
+        await entrants[0].sendTransaction({ to: await lottery.getAddress(), value: donation });
+
+        expect(await lottery.getPrizePool()).to.equal(donation);
+      });
+
+      it("✅ should withdraw the whole balance to the owner", async function () {
+        await variant.enter(lottery, entrants[0], [true, true, true], entryFee * 2n);
+
+        await expect(lottery.connect(deployer).emergencyWithdraw()).to.changeEtherBalances(
+          [lottery, deployer],
+          [-entryFee * 2n, entryFee * 2n],
+        );
+      });
+
+      it("❌ should reject owner functions from other accounts", async function () {
+        const [alice] = entrants;
+
+        await expect(lottery.connect(alice).setEntryFee(1n)).to.be.revertedWith("Only owner can call this function");
+        await expect(lottery.connect(alice).setLotteryActive(false)).to.be.revertedWith(
+          "Only owner can call this function",
+        );
+        await expect(lottery.connect(alice).emergencyWithdraw()).to.be.revertedWith(
+          "Only owner can call this function",
+        );
+      });
+    });
+  });
+}